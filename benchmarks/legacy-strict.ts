@@ -0,0 +1,92 @@
+import type { DelayCalculator, Reconcile } from '../src/utils/delay';
+
+interface Tick {
+  time: number;
+  weight: number;
+}
+
+interface LegacyOptions {
+  readonly limit: number;
+  readonly interval: number;
+}
+
+const insertTickSorted = (strictTicks: Tick[], tickRecord: Tick): void => {
+  if (strictTicks.length === 0 || tickRecord.time >= strictTicks.at(-1)!.time) {
+    strictTicks.push(tickRecord);
+  } else {
+    const insertIndex = strictTicks.findIndex((tick) => tick.time > tickRecord.time);
+    strictTicks.splice(insertIndex, 0, tickRecord);
+  }
+};
+
+const strictDelay = (
+  strictTicks: Tick[],
+  options: LegacyOptions,
+  requestWeight: number,
+  now: number
+): number => {
+  if (strictTicks.length === 0 || now - strictTicks.at(-1)!.time > options.interval) {
+    return 0;
+  }
+
+  const weightInWindowAt = (time: number): number => {
+    let total = 0;
+    for (const tick of strictTicks) {
+      if (tick.time <= time && time - tick.time < options.interval) {
+        total += tick.weight;
+      }
+    }
+    return total;
+  };
+
+  let nextExecutionTime = now;
+  while (weightInWindowAt(nextExecutionTime) + requestWeight > options.limit) {
+    const firstInWindow = strictTicks.find(
+      (tick) => tick.time <= nextExecutionTime && nextExecutionTime - tick.time < options.interval
+    );
+
+    if (!firstInWindow) {
+      break;
+    }
+
+    nextExecutionTime = firstInWindow.time + options.interval;
+  }
+
+  return Math.max(0, nextExecutionTime - now);
+};
+
+const strictRecord = (
+  strictTicks: Tick[],
+  options: LegacyOptions,
+  requestWeight: number,
+  now: number
+): Reconcile => {
+  if (strictTicks.length > 0 && now - strictTicks.at(-1)!.time > options.interval) {
+    strictTicks.length = 0;
+  }
+
+  while (strictTicks.length > 0 && now - strictTicks[0]!.time >= options.interval) {
+    strictTicks.shift();
+  }
+
+  const tick = { time: now, weight: requestWeight };
+  insertTickSorted(strictTicks, tick);
+
+  return (actualWeight) => {
+    if (strictTicks.includes(tick)) {
+      tick.weight = actualWeight;
+    }
+  };
+};
+
+/**
+ * Create a calculator for the weighted `strict` algorithm as it was before the ticks were kept in a `TickLog`, with
+ * the ticks in a plain array that is scanned on every call. Only used to compare against in the benchmarks.
+ */
+export const createLegacyStrictCalculator = (options: LegacyOptions): DelayCalculator => {
+  const strictTicks: Tick[] = [];
+  return {
+    getDelay: (requestWeight, now) => strictDelay(strictTicks, options, requestWeight, now),
+    record: (requestWeight, now) => strictRecord(strictTicks, options, requestWeight, now),
+  };
+};
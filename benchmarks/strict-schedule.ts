@@ -0,0 +1,65 @@
+import { createDelayCalculator } from '../src/utils/delay';
+import type { DelayCalculator } from '../src/utils/delay';
+import { createThrottleState } from '../src/utils/state';
+
+export interface Scenario {
+  readonly name: string;
+  readonly limit: number;
+  readonly interval: number;
+  readonly calls: number;
+  readonly maxWeight: number;
+}
+
+export const scenarios: Scenario[] = [
+  { name: '100 per second', limit: 100, interval: 1000, calls: 2000, maxWeight: 5 },
+  { name: '10,000 per minute', limit: 10_000, interval: 60_000, calls: 20_000, maxWeight: 5 },
+  {
+    name: '10,000 per minute, heavy calls',
+    limit: 10_000,
+    interval: 60_000,
+    calls: 5000,
+    maxWeight: 500,
+  },
+];
+
+// A seeded generator, so both implementations see the same calls
+const createRandom = (seed: number) => () => {
+  seed = (seed + 0x6d_2b_79_f5) | 0;
+  let value = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  value = (value + Math.imul(value ^ (value >>> 7), 61 | value)) ^ value;
+  return ((value ^ (value >>> 14)) >>> 0) / 4_294_967_296;
+};
+
+/**
+ * Run calls arriving at random through a calculator like the queue of a throttled function does, with some calls
+ * reporting their actual weight, and get the time each call started.
+ */
+export const schedule = (calculator: DelayCalculator, scenario: Scenario): number[] => {
+  const random = createRandom(42);
+  const meanSpacing = scenario.interval / scenario.limit;
+  const startTimes: number[] = [];
+
+  let arrival = 0;
+  let time = 0;
+  for (let index = 0; index < scenario.calls; index++) {
+    arrival += Math.floor(random() * meanSpacing * 2);
+    const weight = 1 + Math.floor(random() * scenario.maxWeight);
+
+    time = Math.max(time, arrival);
+    time += calculator.getDelay(weight, time);
+    const reconcile = calculator.record(weight, time);
+    if (random() < 0.25) {
+      reconcile(Math.floor(random() * weight), time);
+    }
+
+    startTimes.push(time);
+  }
+
+  return startTimes;
+};
+
+/**
+ * Create the calculator of the weighted `strict` algorithm, which keeps its ticks in a `TickLog`.
+ */
+export const createStrictCalculator = ({ limit, interval }: Scenario) =>
+  createDelayCalculator(createThrottleState(), { limit, interval, strict: true, weight: () => 1 });
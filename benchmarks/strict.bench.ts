@@ -0,0 +1,17 @@
+import { bench, describe } from 'vitest';
+
+import { createLegacyStrictCalculator } from './legacy-strict';
+import { createStrictCalculator, scenarios, schedule } from './strict-schedule';
+
+// The test suite checks that both implementations schedule every call the same, or the timings would be meaningless
+for (const scenario of scenarios) {
+  describe(`strict weighted, ${scenario.name}`, () => {
+    bench('TickLog', () => {
+      schedule(createStrictCalculator(scenario), scenario);
+    });
+
+    bench('array scan (before)', () => {
+      schedule(createLegacyStrictCalculator(scenario), scenario);
+    });
+  });
+}
@@ -0,0 +1,162 @@
+import type { VirtualClock } from './typings';
+
+interface VirtualTimer {
+  readonly id: number;
+  readonly time: number;
+  readonly callback: () => void;
+}
+
+const MAX_TIMERS = 100_000;
+
+// A macrotask lets promise callbacks, such as a settled call releasing its slot, run before the next timer fires
+const flush = () =>
+  new Promise<void>((resolve) => {
+    if (typeof setImmediate === 'function') {
+      setImmediate(resolve);
+    } else {
+      setTimeout(resolve, 0);
+    }
+  });
+
+/**
+ * Create a clock whose time only moves when advanced, for testing throttled functions instantly and deterministically.
+ *
+ * @example
+ * ```
+ * import Throttle, {createVirtualClock} from '@se-oss/throttle';
+ *
+ * const clock = createVirtualClock();
+ * const throttle = Throttle({limit: 1, interval: 1000, clock});
+ * const throttled = throttle(() => clock.now());
+ *
+ * const results = Promise.all([throttled(), throttled()]);
+ * await clock.advance(1000);
+ *
+ * console.log(await results);
+ * //=> [0, 1000]
+ * ```
+ *
+ * @param startTime - The initial time in milliseconds since the epoch.
+ * @returns A virtual clock to pass as the `clock` option.
+ */
+export const createVirtualClock = (startTime = 0): VirtualClock => {
+  if (!Number.isFinite(startTime)) {
+    throw new TypeError('Expected `startTime` to be a finite number');
+  }
+
+  let currentTime = startTime;
+  let nextId = 0;
+  // A binary heap of the timers, ordered by time and by creation within the same time
+  let timers: VirtualTimer[] = [];
+  // Cleared timers stay in `timers` until they are due or make up half of it
+  const pendingIds = new Set<number>();
+
+  const isBefore = (timer: VirtualTimer, other: VirtualTimer) =>
+    timer.time < other.time || (timer.time === other.time && timer.id < other.id);
+
+  const siftUp = (index: number) => {
+    const timer = timers[index]!;
+    while (index > 0) {
+      const parent = (index - 1) >>> 1;
+      if (!isBefore(timer, timers[parent]!)) {
+        break;
+      }
+      timers[index] = timers[parent]!;
+      index = parent;
+    }
+    timers[index] = timer;
+  };
+
+  const siftDown = (index: number) => {
+    const timer = timers[index]!;
+    for (;;) {
+      let child = index * 2 + 1;
+      if (child >= timers.length) {
+        break;
+      }
+      if (child + 1 < timers.length && isBefore(timers[child + 1]!, timers[child]!)) {
+        child++;
+      }
+      if (!isBefore(timers[child]!, timer)) {
+        break;
+      }
+      timers[index] = timers[child]!;
+      index = child;
+    }
+    timers[index] = timer;
+  };
+
+  const removeFirst = () => {
+    const last = timers.pop()!;
+    if (timers.length > 0) {
+      timers[0] = last;
+      siftDown(0);
+    }
+  };
+
+  const fireNext = (until: number): boolean => {
+    while (timers.length > 0 && !pendingIds.has(timers[0]!.id)) {
+      removeFirst();
+    }
+
+    const timer = timers[0];
+    if (!timer || timer.time > until) {
+      return false;
+    }
+
+    removeFirst();
+    pendingIds.delete(timer.id);
+    currentTime = Math.max(currentTime, timer.time);
+    timer.callback();
+    return true;
+  };
+
+  const run = async (until: number) => {
+    await flush();
+
+    let count = 0;
+    while (fireNext(until)) {
+      if (++count > MAX_TIMERS) {
+        throw new Error(`Aborting after running ${MAX_TIMERS} timers`);
+      }
+
+      await flush();
+    }
+  };
+
+  return {
+    now: () => currentTime,
+    setTimeout: (callback, milliseconds) => {
+      const time = currentTime + Math.max(0, milliseconds || 0);
+      const timer: VirtualTimer = { id: nextId++, time, callback };
+      timers.push(timer);
+      siftUp(timers.length - 1);
+      pendingIds.add(timer.id);
+      return timer.id;
+    },
+    clearTimeout: (handle) => {
+      if (pendingIds.delete(handle as number) && pendingIds.size * 2 < timers.length) {
+        // A sorted array is a valid heap
+        timers = timers
+          .filter(({ id }) => pendingIds.has(id))
+          .sort((timer, other) => (isBefore(timer, other) ? -1 : 1));
+      }
+    },
+    get pendingTimers() {
+      return pendingIds.size;
+    },
+    advance: async (milliseconds) => {
+      if (!Number.isFinite(milliseconds) || milliseconds < 0) {
+        throw new TypeError('Expected `milliseconds` to be a finite number >= 0');
+      }
+
+      const until = currentTime + milliseconds;
+      await run(until);
+      currentTime = until;
+      await flush();
+    },
+    runAll: async () => {
+      await run(Number.POSITIVE_INFINITY);
+    },
+  };
+};
@@ -0,0 +1,19 @@
+/**
+ * Thrown when a call cannot be queued because the queue has reached `maxQueueSize`.
+ */
+export class QueueFullError extends Error {
+  constructor(message = 'Throttle queue is full') {
+    super(message);
+    this.name = 'QueueFullError';
+  }
+}
+
+/**
+ * Thrown when a call would have to wait past `maxWait` or its `deadline`, or when its deadline passes while it is queued.
+ */
+export class WaitTimeoutError extends Error {
+  constructor(message = 'Throttle wait exceeds the deadline') {
+    super(message);
+    this.name = 'WaitTimeoutError';
+  }
+}
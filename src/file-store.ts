@@ -0,0 +1,173 @@
+import { randomUUID } from 'node:crypto';
+import { readFileSync, renameSync, statSync, unlinkSync, writeFileSync } from 'node:fs';
+
+import type { ThrottleStore } from './typings';
+import { createThrottleState, restoreRateState, snapshotRateState } from './utils/state';
+import { isStateExpired, reserveInState } from './utils/store';
+
+export interface FileStoreOptions {
+  /**
+   * The milliseconds after which a lock file is considered left behind by a crashed process, and removed.
+   *
+   * @default 10000
+   */
+  readonly staleTime?: number;
+
+  /**
+   * The milliseconds to wait for the lock before `reserve` throws.
+   *
+   * @default 5000
+   */
+  readonly timeout?: number;
+}
+
+type StoredState = ReturnType<typeof snapshotRateState>;
+
+const toThrottleState = (stored: StoredState | undefined) => {
+  const state = createThrottleState();
+  if (stored) {
+    restoreRateState(state, stored, 0);
+  }
+  return state;
+};
+
+const isErrorCode = (error: unknown, code: string) =>
+  (error as NodeJS.ErrnoException | undefined)?.code === code;
+
+const sleepSync = (milliseconds: number) => {
+  Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, milliseconds);
+};
+
+const readStates = (path: string): Record<string, StoredState> => {
+  try {
+    return JSON.parse(readFileSync(path, 'utf8')) as Record<string, StoredState>;
+  } catch (error) {
+    if (isErrorCode(error, 'ENOENT')) {
+      return {};
+    }
+    throw error;
+  }
+};
+
+/**
+ * Create a store that keeps the throttling state in a JSON file, so processes on the same host share one quota.
+ *
+ * Every reservation holds an exclusive lock file next to it (`<path>.lock`) while reading and writing the state, and
+ * blocks the process while waiting for it, so it fits a handful of processes making calls at moderate rates.
+ *
+ * @example
+ * ```
+ * import Throttle from '@se-oss/throttle';
+ * import {createFileStore} from '@se-oss/throttle/file-store';
+ *
+ * const throttled = Throttle(fetchUser, {
+ * 	limit: 10,
+ * 	interval: 1000,
+ * 	store: createFileStore('/tmp/api-quota.json')
+ * });
+ * ```
+ *
+ * @param path - The path of the JSON file, which is created when missing.
+ * @param options - The options for locking the file.
+ * @returns A store to pass as the `store` option.
+ */
+export const createFileStore = (path: string, options: FileStoreOptions = {}): ThrottleStore => {
+  const { staleTime = 10_000, timeout = 5000 } = options;
+
+  if (!Number.isFinite(staleTime) || staleTime <= 0) {
+    throw new TypeError('Expected `staleTime` to be a finite number > 0');
+  }
+
+  if (!Number.isFinite(timeout) || timeout < 0) {
+    throw new TypeError('Expected `timeout` to be a finite number >= 0');
+  }
+
+  const lockPath = `${path}.lock`;
+
+  // Written into the lock file, so a lock that was removed as stale and taken by another process is not released
+  const lock = (token: string) => {
+    const start = Date.now();
+    for (;;) {
+      try {
+        writeFileSync(lockPath, token, { flag: 'wx' });
+        return;
+      } catch (error) {
+        if (!isErrorCode(error, 'EEXIST')) {
+          throw error;
+        }
+      }
+
+      try {
+        if (Date.now() - statSync(lockPath).mtimeMs > staleTime) {
+          // Moved aside first, since only one of the processes finding it stale can rename it, and checked again after,
+          // since another process may have replaced it with its own lock in between, which is put back
+          const stalePath = `${lockPath}.${token}.stale`;
+          renameSync(lockPath, stalePath);
+          if (Date.now() - statSync(stalePath).mtimeMs > staleTime) {
+            unlinkSync(stalePath);
+          } else {
+            renameSync(stalePath, lockPath);
+          }
+          continue;
+        }
+      } catch (error) {
+        // The lock was released or taken over as stale in the meantime
+        if (isErrorCode(error, 'ENOENT')) {
+          continue;
+        }
+        throw error;
+      }
+
+      if (Date.now() - start >= timeout) {
+        throw new Error(`Timed out waiting for the lock on \`${path}\``);
+      }
+
+      sleepSync(5);
+    }
+  };
+
+  const unlock = (token: string) => {
+    try {
+      if (readFileSync(lockPath, 'utf8') === token) {
+        unlinkSync(lockPath);
+      }
+    } catch (error) {
+      // The lock was removed as stale in the meantime
+      if (!isErrorCode(error, 'ENOENT')) {
+        throw error;
+      }
+    }
+  };
+
+  return {
+    reserve: (request) => {
+      const token = randomUUID();
+      lock(token);
+      try {
+        const states = readStates(path);
+        const key = request.key ?? '';
+        const state = toThrottleState(states[key]);
+
+        const delay = reserveInState(state, request);
+
+        // States of keys that were not used for an interval are removed, so the file does not grow with every key
+        const nextStates: Record<string, StoredState> = {};
+        for (const [otherKey, otherState] of Object.entries(states)) {
+          if (!isStateExpired(toThrottleState(otherState), request.now, request.interval)) {
+            nextStates[otherKey] = otherState;
+          }
+        }
+        nextStates[key] = snapshotRateState(state);
+
+        // Written to a temporary file first, so a crash never leaves a partially written state behind
+        const temporaryPath = `${path}.${process.pid}.tmp`;
+        writeFileSync(temporaryPath, JSON.stringify(nextStates));
+        renameSync(temporaryPath, path);
+
+        return delay;
+      } finally {
+        unlock(token);
+      }
+    },
+  };
+};
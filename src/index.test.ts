@@ -1,6 +1,41 @@
-import { describe, expect, it, test, vi } from 'vitest';
-
-import { throttle } from './index';
+import { getEventListeners } from 'node:events';
+import {
+  existsSync,
+  mkdtempSync,
+  readdirSync,
+  readFileSync,
+  rmSync,
+  statSync,
+  utimesSync,
+  writeFileSync,
+} from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Duplex } from 'node:stream';
+import { MessageChannel, Worker } from 'node:worker_threads';
+import { afterEach, beforeEach, describe, expect, it, test, vi } from 'vitest';
+
+import { createLegacyStrictCalculator } from '../benchmarks/legacy-strict';
+import { createStrictCalculator, scenarios, schedule } from '../benchmarks/strict-schedule';
+import { createFileStore } from './file-store';
+import {
+  createMemoryStore,
+  createSharedStore,
+  createThrottleStream,
+  createVirtualClock,
+  QueueFullError,
+  RateLimiter,
+  throttle,
+  throttleIterable,
+  WaitTimeoutError,
+} from './index';
+import type { ThrottleSnapshot, ThrottleStore } from './index';
+
+// Wrapped, so a test can act between the file store finding a lock stale and taking it over
+vi.mock('node:fs', async (importOriginal) => {
+  const fs = await importOriginal<typeof import('node:fs')>();
+  return { ...fs, statSync: vi.fn(fs.statSync) };
+});
 
 const inRange = (value: number, range: { start: number; end: number }): boolean => {
   return value >= range.start && value <= range.end;
@@ -400,6 +435,43 @@ describe('throttle', () => {
       expect(gap >= interval - 10).toBe(true);
     });
 
+    it('strict mode with weights - keeps the sliding window with large limits', async () => {
+      const clock = createVirtualClock();
+      const throttled = throttle((_weight: number) => clock.now(), {
+        limit: 10_000,
+        interval: 60_000,
+        strict: true,
+        weight: (weight: number) => weight,
+        clock,
+      });
+
+      // Two bursts of 5000, which fill the window
+      const calls = (count: number) =>
+        Promise.all(Array.from({ length: count }, (_, index) => throttled(1 + (index % 4))));
+      expect((await calls(2000)).at(-1)).toBe(0);
+      await clock.advance(10_000);
+      expect((await calls(2000)).at(-1)).toBe(10_000);
+
+      await clock.advance(20_000);
+      const results = Promise.all([throttled(1), throttled(5000)]);
+      await clock.runAll();
+
+      // The first burst expires at 60000, and the second one has to expire as well before 5000 more fit
+      expect(await results).toEqual([60_000, 70_000]);
+    });
+
+    it('strict mode with weights - schedules calls like scanning every tick', () => {
+      // Light calls keep the log of 80 per second growing above and shrinking below the length it scans up to
+      for (const scenario of [
+        ...scenarios,
+        { name: '80 light calls per second', limit: 80, interval: 1000, calls: 2000, maxWeight: 2 },
+      ]) {
+        expect(schedule(createStrictCalculator(scenario), scenario), scenario.name).toEqual(
+          schedule(createLegacyStrictCalculator(scenario), scenario)
+        );
+      }
+    });
+
     it('weight must be <= limit', async () => {
       const throttled = throttle(() => {}, {
         limit: 10,
@@ -499,4 +571,2852 @@ describe('throttle', () => {
       ).toThrow('The `weight` option cannot be used with `interval` of 0');
     });
   });
+
+  describe('tokenBucket option', () => {
+    it('allows a burst of `capacity` calls, then refills at `limit` per `interval`', async () => {
+      const throttled = throttle(() => Date.now(), {
+        limit: 1,
+        interval: 100,
+        tokenBucket: { capacity: 3 },
+      });
+      const start = Date.now();
+
+      const times = await Promise.all(Array.from({ length: 5 }, () => throttled()));
+
+      for (const time of times.slice(0, 3)) {
+        expect(time - start < 50).toBe(true);
+      }
+
+      expect(inRange(times[3]! - start, { start: 90, end: 200 })).toBe(true);
+      expect(inRange(times[4]! - start, { start: 190, end: 300 })).toBe(true);
+    });
+
+    it('refills tokens while idle', async () => {
+      const throttled = throttle(() => Date.now(), {
+        limit: 2,
+        interval: 100,
+        tokenBucket: true,
+      });
+
+      await throttled();
+      await throttled();
+      await new Promise((resolve) => setTimeout(resolve, 120));
+
+      const start = Date.now();
+      await throttled();
+      await throttled();
+      expect(Date.now() - start < 50).toBe(true);
+    });
+
+    it('consumes `weight` tokens per call', async () => {
+      const throttled = throttle((_: number) => Date.now(), {
+        limit: 10,
+        interval: 100,
+        tokenBucket: { capacity: 20 },
+        weight: (value: number) => value,
+      });
+      const start = Date.now();
+
+      await throttled(15);
+      const time = await throttled(10);
+
+      // 5 tokens are left, so 5 more must be refilled at 10 per 100ms
+      expect(inRange(time - start, { start: 40, end: 150 })).toBe(true);
+      await expect(throttled(21)).rejects.toThrow(
+        /Expected `weight` \(21\) to be <= `capacity` \(20\)/
+      );
+    });
+
+    it('validates options', () => {
+      expect(() =>
+        throttle(() => {}, { limit: 1, interval: 100, strict: true, tokenBucket: true })
+      ).toThrow('Only one of the `strict`, `tokenBucket` and `gcra` options can be used');
+      expect(() => throttle(() => {}, { limit: 0, interval: 100, tokenBucket: true })).toThrow(
+        'The `tokenBucket` option requires `limit` and `interval` to be > 0'
+      );
+      expect(() =>
+        throttle(() => {}, { limit: 1, interval: 100, tokenBucket: { capacity: 0 } })
+      ).toThrow('Expected `tokenBucket.capacity` to be a finite number > 0');
+    });
+  });
+
+  describe('gcra option', () => {
+    it('spaces calls evenly instead of bursting', async () => {
+      const limit = 5;
+      const interval = 100;
+      const throttled = throttle(() => Date.now(), { limit, interval, gcra: true });
+
+      const times = await Promise.all(Array.from({ length: 6 }, () => throttled()));
+
+      for (let index = 1; index < times.length; index++) {
+        const gap = times[index]! - times[index - 1]!;
+        expect(gap >= interval / limit - 5).toBe(true);
+      }
+    });
+
+    it('allows `burst` calls back to back', async () => {
+      const throttled = throttle(() => Date.now(), {
+        limit: 10,
+        interval: 500,
+        gcra: { burst: 3 },
+      });
+      const start = Date.now();
+
+      const times = await Promise.all(Array.from({ length: 4 }, () => throttled()));
+
+      for (const time of times.slice(0, 3)) {
+        expect(time - start < 30).toBe(true);
+      }
+
+      expect(inRange(times[3]! - start, { start: 40, end: 150 })).toBe(true);
+    });
+
+    it('treats `weight` as a multiple of the emission interval', async () => {
+      const throttled = throttle((_: number) => Date.now(), {
+        limit: 10,
+        interval: 500,
+        gcra: true,
+        weight: (value: number) => value,
+      });
+
+      const first = await throttled(3);
+      const second = await throttled(1);
+
+      expect(inRange(second - first, { start: 140, end: 250 })).toBe(true);
+    });
+
+    it('charges the whole weight against the burst before starting', async () => {
+      const clock = createVirtualClock();
+      const throttled = throttle((_: number) => clock.now(), {
+        limit: 10,
+        interval: 1000,
+        gcra: { burst: 10 },
+        weight: (value: number) => value,
+        clock,
+      });
+
+      const results = Promise.all([throttled(10), throttled(10), throttled(4), throttled(2)]);
+      await clock.runAll();
+
+      expect(await results).toEqual([0, 1000, 1400, 1600]);
+    });
+
+    it('starts a call heavier than `burst` once nothing is left to emit', async () => {
+      const clock = createVirtualClock();
+      const throttled = throttle((_: number) => clock.now(), {
+        limit: 10,
+        interval: 1000,
+        gcra: { burst: 2 },
+        weight: (value: number) => value,
+        clock,
+      });
+
+      const results = Promise.all([throttled(3), throttled(1), throttled(1)]);
+      await clock.runAll();
+
+      // The heavy call emits for 300 ms, of which the following calls may use up the burst early
+      expect(await results).toEqual([0, 200, 300]);
+    });
+
+    it('validates options', () => {
+      expect(() => throttle(() => {}, { limit: 0, interval: 100, gcra: true })).toThrow(
+        'The `gcra` option requires `limit` and `interval` to be > 0'
+      );
+      expect(() => throttle(() => {}, { limit: 1, interval: 100, gcra: { burst: 0 } })).toThrow(
+        'Expected `gcra.burst` to be a finite number >= 1'
+      );
+      expect(() =>
+        throttle(() => {}, { limit: 1, interval: 100, gcra: true, tokenBucket: true })
+      ).toThrow('Only one of the `strict`, `tokenBucket` and `gcra` options can be used');
+    });
+  });
+
+  describe('concurrency option', () => {
+    it('limits the number of pending calls', async () => {
+      let running = 0;
+      let maxRunning = 0;
+      const throttled = throttle(
+        async () => {
+          running++;
+          maxRunning = Math.max(maxRunning, running);
+          await new Promise((resolve) => setTimeout(resolve, 50));
+          running--;
+        },
+        { limit: 10, interval: 100, concurrency: 2 }
+      );
+
+      const promises = Array.from({ length: 6 }, () => throttled());
+      expect(throttled.activeCount).toBe(2);
+      expect(throttled.queueSize).toBe(4);
+
+      await Promise.all(promises);
+      expect(maxRunning).toBe(2);
+      expect(throttled.activeCount).toBe(0);
+      expect(throttled.queueSize).toBe(0);
+    });
+
+    it('waits for both the rate limit and a free slot', async () => {
+      const clock = createVirtualClock();
+      const throttled = throttle(
+        async () => {
+          const time = clock.now();
+          await new Promise<void>((resolve) => clock.setTimeout(resolve, 10));
+          return time;
+        },
+        { limit: 2, interval: 100, concurrency: 1, clock }
+      );
+
+      const promise = Promise.all(Array.from({ length: 3 }, () => throttled()));
+      await clock.runAll();
+      const times = await promise;
+
+      expect(times[1]! - times[0]! >= 10).toBe(true);
+      expect(times[2]).toBe(100);
+    });
+
+    it('frees the slot when a call rejects', async () => {
+      const throttled = throttle(
+        async (shouldFail: boolean) => {
+          if (shouldFail) {
+            throw new Error('failed');
+          }
+          return 'ok';
+        },
+        { concurrency: 1 }
+      );
+
+      const failed = throttled(true);
+      const succeeded = throttled(false);
+
+      await expect(failed).rejects.toThrow('failed');
+      await expect(succeeded).resolves.toBe('ok');
+    });
+
+    it('validates `concurrency`', () => {
+      expect(() => throttle(() => {}, { concurrency: 0 })).toThrow(
+        'Expected `concurrency` to be >= 1'
+      );
+      expect(() => throttle(() => {}, { concurrency: 1.5 })).toThrow(
+        'Expected `concurrency` to be an integer or `Infinity`'
+      );
+    });
+  });
+
+  describe('maxQueueSize option', () => {
+    it('rejects new calls with `QueueFullError` by default', async () => {
+      const dropped: number[] = [];
+      const throttled = throttle((value: number) => value, {
+        limit: 1,
+        interval: 100,
+        maxQueueSize: 2,
+        onDrop: (value: number) => dropped.push(value),
+      });
+
+      const promises = [throttled(1), throttled(2), throttled(3)];
+      expect(throttled.queueSize).toBe(2);
+
+      await expect(throttled(4)).rejects.toBeInstanceOf(QueueFullError);
+      expect(throttled.queueSize).toBe(2);
+      expect(dropped).toEqual([4]);
+      expect(await Promise.all(promises)).toEqual([1, 2, 3]);
+    });
+
+    it('drops the oldest queued call with `drop-oldest`', async () => {
+      const dropped: number[] = [];
+      const throttled = throttle((value: number) => value, {
+        limit: 1,
+        interval: 100,
+        maxQueueSize: 2,
+        overflow: 'drop-oldest',
+        onDrop: (value: number) => dropped.push(value),
+      });
+
+      const results = await Promise.allSettled([
+        throttled(1),
+        throttled(2),
+        throttled(3),
+        throttled(4),
+      ]);
+
+      expect(results[0]).toEqual({ status: 'fulfilled', value: 1 });
+      expect(results[1]!.status).toBe('rejected');
+      expect((results[1] as PromiseRejectedResult).reason).toBeInstanceOf(QueueFullError);
+      expect(results[2]).toEqual({ status: 'fulfilled', value: 3 });
+      expect(results[3]).toEqual({ status: 'fulfilled', value: 4 });
+      expect(dropped).toEqual([2]);
+    });
+
+    it('calls the `overflow` fallback with the new call arguments', async () => {
+      const throttled = throttle((value: number) => `accurate ${value}`, {
+        limit: 1,
+        interval: 100,
+        maxQueueSize: 0,
+        overflow: (value: number) => `rough ${value}`,
+      });
+
+      expect(await throttled(1)).toBe('accurate 1');
+      expect(await throttled(2)).toBe('rough 2');
+      expect(throttled.queueSize).toBe(0);
+    });
+
+    it('validates options', () => {
+      expect(() => throttle(() => {}, { maxQueueSize: -1 })).toThrow(
+        'Expected `maxQueueSize` to be >= 0'
+      );
+      expect(() => throttle(() => {}, { overflow: 'drop-newest' as any })).toThrow(
+        "Expected `overflow` to be 'reject', 'drop-oldest' or a function"
+      );
+    });
+  });
+
+  describe('withOptions', () => {
+    it('removes an aborted call from the queue', async () => {
+      const throttled = throttle((value: string) => value, { limit: 1, interval: 100 });
+      const controller = new AbortController();
+
+      const first = throttled('first');
+      const stale = throttled.withOptions({ signal: controller.signal })('stale');
+      const next = throttled('next');
+      expect(throttled.queueSize).toBe(2);
+
+      controller.abort(new Error('stale'));
+      expect(throttled.queueSize).toBe(1);
+
+      await expect(stale).rejects.toThrow('stale');
+      expect(await first).toBe('first');
+      expect(await next).toBe('next');
+    });
+
+    it('lets later calls take the slot of an aborted call', async () => {
+      const throttled = throttle(() => Date.now(), { limit: 1, interval: 100 });
+      const controller = new AbortController();
+      const start = Date.now();
+
+      await throttled();
+      const stale = throttled.withOptions({ signal: controller.signal })();
+      const next = throttled();
+      controller.abort();
+
+      await expect(stale).rejects.toThrow();
+      expect(inRange((await next) - start, { start: 90, end: 180 })).toBe(true);
+    });
+
+    it('rejects immediately when the signal is already aborted', async () => {
+      let calls = 0;
+      const throttled = throttle(() => ++calls, { limit: 1, interval: 100 });
+
+      await expect(throttled.withOptions({ signal: AbortSignal.abort('nope') })()).rejects.toBe(
+        'nope'
+      );
+      expect(calls).toBe(0);
+    });
+
+    it('preserves `this`', async () => {
+      const throttled = throttle(
+        function (this: unknown) {
+          return this;
+        },
+        { limit: 1, interval: 100 }
+      );
+      const context = {};
+
+      expect(await throttled.withOptions({}).call(context)).toBe(context);
+    });
+  });
+
+  describe('priority option', () => {
+    it('runs higher priority calls first, in FIFO order within a priority', async () => {
+      const order: string[] = [];
+      const throttled = throttle((name: string, _priority: number) => order.push(name), {
+        limit: 1,
+        interval: 20,
+        priority: (_name: string, priority: number) => priority,
+      });
+
+      await Promise.all([
+        throttled('first', 0),
+        throttled('low-1', 0),
+        throttled('low-2', 0),
+        throttled('high-1', 2),
+        throttled('mid', 1),
+        throttled('high-2', 2),
+      ]);
+
+      expect(order).toEqual(['first', 'high-1', 'high-2', 'mid', 'low-1', 'low-2']);
+    });
+
+    it('accepts a per-call priority', async () => {
+      const order: string[] = [];
+      const throttled = throttle((name: string) => order.push(name), { limit: 1, interval: 20 });
+
+      await Promise.all([
+        throttled('first'),
+        throttled('background'),
+        throttled.withOptions({ priority: 1 })('urgent'),
+      ]);
+
+      expect(order).toEqual(['first', 'urgent', 'background']);
+    });
+
+    it('drops the oldest lowest-priority call when the queue is full', async () => {
+      const dropped: string[] = [];
+      const throttled = throttle((name: string) => name, {
+        limit: 1,
+        interval: 20,
+        maxQueueSize: 2,
+        overflow: 'drop-oldest',
+        onDrop: (name: string) => dropped.push(name),
+      });
+
+      const results = await Promise.allSettled([
+        throttled('first'),
+        throttled.withOptions({ priority: 1 })('high'),
+        throttled('low'),
+        throttled('newest'),
+      ]);
+
+      expect(dropped).toEqual(['low']);
+      expect(results.map((result) => result.status)).toEqual([
+        'fulfilled',
+        'fulfilled',
+        'rejected',
+        'fulfilled',
+      ]);
+    });
+
+    it('rejects a new call with a lower priority than every queued call when the queue is full', async () => {
+      const dropped: string[] = [];
+      const throttled = throttle((name: string) => name, {
+        limit: 1,
+        interval: 20,
+        maxQueueSize: 2,
+        overflow: 'drop-oldest',
+        onDrop: (name: string) => dropped.push(name),
+      });
+
+      const results = await Promise.allSettled([
+        throttled('first'),
+        throttled.withOptions({ priority: 1 })('high'),
+        throttled('normal'),
+        throttled.withOptions({ priority: -1 })('background'),
+      ]);
+
+      expect(dropped).toEqual(['background']);
+      expect(results[3]!.status).toBe('rejected');
+      expect((results[3] as PromiseRejectedResult).reason).toBeInstanceOf(QueueFullError);
+      expect(results.slice(0, 3)).toEqual([
+        { status: 'fulfilled', value: 'first' },
+        { status: 'fulfilled', value: 'high' },
+        { status: 'fulfilled', value: 'normal' },
+      ]);
+    });
+
+    it('priority must be a finite number', async () => {
+      const throttled = throttle(() => {}, { priority: () => Number.NaN });
+
+      await expect(throttled()).rejects.toThrow('Expected `priority` to be a finite number');
+    });
+  });
+
+  describe('key option', () => {
+    it('throttles each key independently', async () => {
+      const throttled = throttle((_tenant: string) => Date.now(), {
+        limit: 1,
+        interval: 100,
+        key: (tenant: string) => tenant,
+      });
+      const start = Date.now();
+
+      const times = await Promise.all([throttled('a'), throttled('b'), throttled('a')]);
+
+      expect(times[0]! - start < 50).toBe(true);
+      expect(times[1]! - start < 50).toBe(true);
+      expect(inRange(times[2]! - start, { start: 90, end: 180 })).toBe(true);
+    });
+
+    it('reports the queue size per key', async () => {
+      const throttled = throttle((_tenant: string) => {}, {
+        limit: 1,
+        interval: 100,
+        key: (tenant: string) => tenant,
+      });
+
+      const promises = [throttled('a'), throttled('a'), throttled('a'), throttled('b')];
+
+      expect(throttled.queueSizeFor('a')).toBe(2);
+      expect(throttled.queueSizeFor('b')).toBe(0);
+      expect(throttled.queueSizeFor('c')).toBe(0);
+      expect(throttled.queueSize).toBe(2);
+      expect(throttled.keys()).toEqual(['a', 'b']);
+
+      await Promise.all(promises);
+    });
+
+    it('evicts idle keys after `keyTtl`', async () => {
+      const throttled = throttle((_tenant: string) => {}, {
+        limit: 1,
+        interval: 20,
+        key: (tenant: string) => tenant,
+        keyTtl: 50,
+      });
+
+      await throttled('a');
+      await throttled('b');
+      expect(throttled.keys()).toEqual(['a', 'b']);
+
+      await new Promise((resolve) => setTimeout(resolve, 70));
+      expect(throttled.keys()).toEqual([]);
+    });
+
+    it('evicts the least recently used idle key beyond `maxKeys`', async () => {
+      const throttled = throttle((_tenant: string) => {}, {
+        limit: 1,
+        interval: 100,
+        key: (tenant: string) => tenant,
+        maxKeys: 2,
+      });
+
+      await throttled('a');
+      await throttled('b');
+      await throttled('a');
+      await throttled('c');
+
+      expect(throttled.keys()).toEqual(['a', 'c']);
+    });
+
+    it('validates options', () => {
+      expect(() => throttle(() => {}, { key: 'tenant' as any })).toThrow(
+        'Expected `key` to be a function'
+      );
+      expect(() => throttle(() => {}, { maxKeys: 0 })).toThrow(
+        'Expected `maxKeys` to be an integer >= 1'
+      );
+    });
+  });
+
+  describe('limits option', () => {
+    it('waits until every rule has capacity', async () => {
+      const throttled = throttle(() => Date.now(), {
+        limits: [
+          { limit: 2, interval: 50 },
+          { limit: 3, interval: 200 },
+        ],
+      });
+      const start = Date.now();
+
+      const times = await Promise.all(Array.from({ length: 4 }, () => throttled()));
+
+      expect(times[1]! - start < 30).toBe(true);
+      expect(inRange(times[2]! - start, { start: 40, end: 120 })).toBe(true);
+      // The second rule only allows 3 calls per 200ms
+      expect(inRange(times[3]! - start, { start: 190, end: 300 })).toBe(true);
+    });
+
+    it('applies `weight` to each rule', async () => {
+      const throttled = throttle((_: number) => Date.now(), {
+        limits: [
+          { limit: 10, interval: 50 },
+          { limit: 5, interval: 100 },
+        ],
+        strict: true,
+        weight: (value: number) => value,
+      });
+
+      await expect(throttled(6)).rejects.toThrow(/Expected `weight` \(6\) to be <= `limit` \(5\)/);
+
+      const first = await throttled(5);
+      const second = await throttled(1);
+      expect(second - first >= 90).toBe(true);
+    });
+
+    it('validates options', () => {
+      expect(() => throttle(() => {}, { limits: [] })).toThrow(
+        'Expected `limits` to be a non-empty array'
+      );
+      expect(() =>
+        throttle(() => {}, { limit: 1, interval: 100, limits: [{ limit: 1, interval: 100 }] })
+      ).toThrow('The `limits` option cannot be used with `limit` and `interval`');
+      expect(() => throttle(() => {}, { limits: [{ limit: -1, interval: 100 }] })).toThrow(
+        'Expected `limit` to be >= 0'
+      );
+    });
+  });
+
+  describe('rate limit feedback', () => {
+    it('penalize() pushes back queued calls', async () => {
+      const throttled = throttle(() => Date.now(), { limit: 1, interval: 20 });
+      const start = Date.now();
+
+      await throttled();
+      const queued = throttled();
+      throttled.penalize(100);
+
+      expect(inRange((await queued) - start, { start: 90, end: 180 })).toBe(true);
+    });
+
+    it('syncQuota() limits calls until the quota resets', async () => {
+      const throttled = throttle(() => Date.now(), { limit: 10, interval: 1000 });
+      const start = Date.now();
+
+      throttled.syncQuota({ remaining: 2, resetAt: start + 100 });
+      const times = await Promise.all(Array.from({ length: 3 }, () => throttled()));
+
+      expect(times[1]! - start < 50).toBe(true);
+      expect(inRange(times[2]! - start, { start: 90, end: 180 })).toBe(true);
+    });
+
+    it('applies the feedback returned by `inspect`', async () => {
+      const throttled = throttle(
+        (status: number) => {
+          if (status === 429) {
+            throw new Error('Too Many Requests');
+          }
+          return Date.now();
+        },
+        {
+          limit: 10,
+          interval: 100,
+          inspect: (result) => (result.status === 'rejected' ? { retryAfter: 100 } : undefined),
+        }
+      );
+      const start = Date.now();
+
+      await expect(throttled(429)).rejects.toThrow('Too Many Requests');
+      expect(inRange((await throttled(200)) - start, { start: 90, end: 180 })).toBe(true);
+    });
+
+    it('only penalizes the given key', async () => {
+      const throttled = throttle((_tenant: string) => Date.now(), {
+        limit: 10,
+        interval: 100,
+        key: (tenant: string) => tenant,
+      });
+      const start = Date.now();
+
+      throttled.penalize(100, 'a');
+      const [a, b] = await Promise.all([throttled('a'), throttled('b')]);
+
+      expect(inRange(a - start, { start: 90, end: 180 })).toBe(true);
+      expect(b - start < 50).toBe(true);
+    });
+
+    it('validates arguments', () => {
+      const throttled = throttle(() => {}, { limit: 1, interval: 100 });
+
+      expect(() => throttled.penalize(-1)).toThrow(
+        'Expected `milliseconds` to be a finite number >= 0'
+      );
+      expect(() => throttled.syncQuota({ remaining: Number.NaN, resetAt: Date.now() })).toThrow(
+        'Expected `remaining` to be a finite number >= 0'
+      );
+    });
+  });
+
+  describe('retry option', () => {
+    it('retries failed calls through the throttle', async () => {
+      const times: number[] = [];
+      const retries: number[] = [];
+      const throttled = throttle(
+        () => {
+          times.push(Date.now());
+          if (times.length < 3) {
+            throw new Error('flaky');
+          }
+          return 'ok';
+        },
+        {
+          limit: 1,
+          interval: 50,
+          retry: { minDelay: 0 },
+          onRetry: (_error, attempt) => retries.push(attempt),
+        }
+      );
+
+      expect(await throttled()).toBe('ok');
+      expect(retries).toEqual([1, 2]);
+      expect(times[1]! - times[0]! >= 40).toBe(true);
+      expect(times[2]! - times[1]! >= 40).toBe(true);
+    });
+
+    it('retries on the current lane of a key that was evicted during the backoff', async () => {
+      const clock = createVirtualClock();
+      const starts: string[] = [];
+      let hasFailed = false;
+      const throttled = throttle(
+        (_key: string, name: string) => {
+          starts.push(`${name}@${clock.now()}`);
+          if (!hasFailed) {
+            hasFailed = true;
+            throw new Error('flaky');
+          }
+        },
+        {
+          limit: 1,
+          interval: 1000,
+          key: (key) => key,
+          keyTtl: 1000,
+          retry: { retries: 1, minDelay: 5000, jitter: false },
+          clock,
+        }
+      );
+
+      const retried = throttled('a', 'retried');
+      // A call for another key evicts the idle key during the backoff
+      await clock.advance(2000);
+      await throttled('b', 'other');
+      await clock.advance(3000);
+      const next = throttled('a', 'next');
+      await clock.runAll();
+      await Promise.all([retried, next]);
+
+      expect(starts).toEqual(['retried@0', 'other@2000', 'retried@5000', 'next@6000']);
+    });
+
+    it('rejects with the last error once `retries` are exhausted', async () => {
+      let calls = 0;
+      const throttled = throttle(
+        () => {
+          throw new Error(`attempt ${++calls}`);
+        },
+        { retry: { retries: 2, minDelay: 1 } }
+      );
+
+      await expect(throttled()).rejects.toThrow('attempt 3');
+    });
+
+    it('only retries when `shouldRetry` allows it', async () => {
+      let calls = 0;
+      const throttled = throttle(
+        () => {
+          calls++;
+          throw new Error('fatal');
+        },
+        { retry: { minDelay: 1, shouldRetry: (error) => error.message !== 'fatal' } }
+      );
+
+      await expect(throttled()).rejects.toThrow('fatal');
+      expect(calls).toBe(1);
+    });
+
+    it('puts retries ahead of queued calls with `prioritize`', async () => {
+      const order: string[] = [];
+      let hasFailed = false;
+      const throttled = throttle(
+        (name: string) => {
+          order.push(name);
+          if (name === 'flaky' && !hasFailed) {
+            hasFailed = true;
+            throw new Error('flaky');
+          }
+        },
+        { limit: 1, interval: 30, retry: { minDelay: 0, prioritize: true } }
+      );
+
+      await Promise.all([throttled('flaky'), throttled('a'), throttled('b')]);
+
+      expect(order).toEqual(['flaky', 'flaky', 'a', 'b']);
+    });
+
+    it('cancels pending retries when aborted', async () => {
+      const controller = new AbortController();
+      const throttled = throttle(
+        () => {
+          throw new Error('flaky');
+        },
+        { retry: { minDelay: 1000, jitter: false } }
+      );
+
+      const promise = throttled.withOptions({ signal: controller.signal })();
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      controller.abort(new Error('aborted'));
+
+      await expect(promise).rejects.toThrow('aborted');
+    });
+
+    it('does not keep listening to the signal of the throttle after calls settle', async () => {
+      const clock = createVirtualClock();
+      const controller = new AbortController();
+      const failed = new Set<number>();
+      const throttled = throttle(
+        (id: number) => {
+          // Every call fails once and succeeds on its retry
+          if (!failed.has(id)) {
+            failed.add(id);
+            throw new Error('flaky');
+          }
+          return id;
+        },
+        { signal: controller.signal, retry: { minDelay: 100, jitter: false }, clock }
+      );
+      const listenerCount = getEventListeners(controller.signal, 'abort').length;
+
+      const calls = Array.from({ length: 50 }, (_, id) =>
+        throttled.withOptions({ signal: new AbortController().signal })(id)
+      );
+      await clock.runAll();
+
+      expect(await Promise.all(calls)).toHaveLength(50);
+      expect(getEventListeners(controller.signal, 'abort')).toHaveLength(listenerCount);
+    });
+
+    it('does not listen to the signal of the throttle for each sleeping retry', async () => {
+      const clock = createVirtualClock();
+      const controller = new AbortController();
+      const throttled = throttle(
+        () => {
+          throw new Error('flaky');
+        },
+        { signal: controller.signal, retry: { minDelay: 100, jitter: false }, clock }
+      );
+      const listenerCount = getEventListeners(controller.signal, 'abort').length;
+
+      const calls = Array.from({ length: 50 }, () => throttled());
+      const results = Promise.allSettled(calls);
+      await clock.advance(50);
+
+      expect(getEventListeners(controller.signal, 'abort')).toHaveLength(listenerCount);
+
+      controller.abort(new Error('stopped'));
+      for (const result of await results) {
+        expect(result).toEqual({ status: 'rejected', reason: new Error('stopped') });
+      }
+    });
+
+    it('validates options', () => {
+      expect(() => throttle(() => {}, { retry: { retries: -1 } })).toThrow(
+        'Expected `retry.retries` to be an integer >= 0'
+      );
+    });
+  });
+
+  describe('configure', () => {
+    it('reschedules queued calls against the new limits', async () => {
+      const throttled = throttle(() => Date.now(), { limit: 1, interval: 1000 });
+      const start = Date.now();
+
+      const promises = Array.from({ length: 3 }, () => throttled());
+      throttled.configure({ limit: 3 });
+
+      const times = await Promise.all(promises);
+      for (const time of times) {
+        expect(time - start < 50).toBe(true);
+      }
+    });
+
+    it('carries the usage over to the new limits', async () => {
+      const throttled = throttle(() => Date.now(), { limit: 2, interval: 100 });
+      const start = Date.now();
+
+      await throttled();
+      await throttled();
+      throttled.configure({ limit: 3, strict: true });
+
+      const times = await Promise.all([throttled(), throttled()]);
+      expect(times[0]! - start < 50).toBe(true);
+      expect(inRange(times[1]! - start, { start: 90, end: 180 })).toBe(true);
+    });
+
+    it('rejects queued calls that no longer fit the limits', async () => {
+      const throttled = throttle((_: number) => {}, {
+        limit: 10,
+        interval: 100,
+        weight: (value: number) => value,
+      });
+
+      const first = throttled(10);
+      const queued = throttled(8);
+      throttled.configure({ limit: 5 });
+
+      await first;
+      await expect(queued).rejects.toThrow(/Expected `weight` \(8\) to be <= `limit` \(5\)/);
+      expect(throttled.queueSize).toBe(0);
+    });
+
+    it('validates the new options', () => {
+      const throttled = throttle(() => {}, { limit: 1, interval: 100 });
+
+      expect(() => throttled.configure({ limit: -1 })).toThrow('Expected `limit` to be >= 0');
+      expect(() => throttled.configure({ limits: [] })).toThrow(
+        'Expected `limits` to be a non-empty array'
+      );
+    });
+  });
+
+  describe('pause and resume', () => {
+    it('holds queued calls until resumed', async () => {
+      const throttled = throttle(() => Date.now(), { limit: 10, interval: 100 });
+
+      throttled.pause();
+      expect(throttled.isPaused).toBe(true);
+
+      const start = Date.now();
+      const promises = [throttled(), throttled()];
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      expect(throttled.queueSize).toBe(2);
+
+      throttled.resume();
+      expect(throttled.isPaused).toBe(false);
+
+      const times = await Promise.all(promises);
+      for (const time of times) {
+        expect(inRange(time - start, { start: 90, end: 150 })).toBe(true);
+      }
+    });
+
+    it('stops a pending dispatch', async () => {
+      const throttled = throttle(() => Date.now(), { limit: 1, interval: 100 });
+
+      await throttled();
+      const start = Date.now();
+      const promise = throttled();
+      throttled.pause();
+
+      await new Promise((resolve) => setTimeout(resolve, 200));
+      expect(throttled.queueSize).toBe(1);
+
+      throttled.resume();
+      expect((await promise) - start >= 190).toBe(true);
+    });
+  });
+
+  describe('onEmpty and onIdle', () => {
+    it('resolves immediately when nothing is pending', async () => {
+      const throttled = throttle(() => {}, { limit: 1, interval: 100 });
+
+      await throttled.onEmpty();
+      await throttled.onIdle();
+    });
+
+    it('resolves once the queue is empty and the calls have settled', async () => {
+      const events: string[] = [];
+      const throttled = throttle(
+        async () => {
+          await new Promise((resolve) => setTimeout(resolve, 50));
+          events.push('settled');
+        },
+        { limit: 1, interval: 20 }
+      );
+
+      const promises = [throttled(), throttled()];
+      const empty = throttled.onEmpty().then(() => events.push('empty'));
+      const idle = throttled.onIdle().then(() => events.push('idle'));
+
+      await Promise.all([...promises, empty, idle]);
+      expect(events).toEqual(['empty', 'settled', 'settled', 'idle']);
+    });
+
+    it('waits for pending retries', async () => {
+      let attempts = 0;
+      const throttled = throttle(
+        () => {
+          attempts++;
+          if (attempts < 2) {
+            throw new Error('Transient');
+          }
+        },
+        { limit: 10, interval: 100, retry: { minDelay: 50, jitter: false } }
+      );
+
+      const promise = throttled();
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      await throttled.onIdle();
+
+      expect(attempts).toBe(2);
+      await promise;
+    });
+  });
+
+  describe('drain', () => {
+    it('resolves with true once the calls have finished', async () => {
+      const throttled = throttle(() => new Promise((resolve) => setTimeout(resolve, 20)), {
+        limit: 1,
+        interval: 50,
+      });
+
+      const promises = [throttled(), throttled(), throttled()];
+      expect(await throttled.drain()).toBe(true);
+      expect(throttled.queueSize).toBe(0);
+      expect(throttled.activeCount).toBe(0);
+      await Promise.all(promises);
+    });
+
+    it('resolves with false when the timeout elapses first', async () => {
+      const throttled = throttle(() => {}, { limit: 1, interval: 200 });
+
+      const promises = [throttled(), throttled()];
+      const end = timeSpan();
+      expect(await throttled.drain({ timeout: 50 })).toBe(false);
+      expect(inRange(end(), { start: 40, end: 120 })).toBe(true);
+      expect(throttled.queueSize).toBe(1);
+      await Promise.all(promises);
+    });
+
+    it('validates the timeout', () => {
+      const throttled = throttle(() => {}, { limit: 1, interval: 100 });
+
+      expect(() => throttled.drain({ timeout: -1 })).toThrow(
+        'Expected `timeout` to be a number >= 0'
+      );
+    });
+  });
+
+  describe('events', () => {
+    it('emits the lifecycle of each call', async () => {
+      const events: string[] = [];
+      const throttled = throttle((value: number) => value, { limit: 1, interval: 100 });
+
+      throttled.on('enqueue', ({ args, delay }) => events.push(`enqueue ${args[0]} ${delay > 0}`));
+      throttled.on('start', ({ args, wait }) => events.push(`start ${args[0]} ${wait >= 90}`));
+      throttled.on('settle', ({ args, result }) =>
+        events.push(`settle ${args[0]} ${result.status}`)
+      );
+
+      await Promise.all([throttled(1), throttled(2)]);
+      expect(events).toEqual([
+        'enqueue 1 false',
+        'start 1 false',
+        'enqueue 2 true',
+        'settle 1 fulfilled',
+        'start 2 true',
+        'settle 2 fulfilled',
+      ]);
+    });
+
+    it('emits the delay of queued calls after the calls queued ahead', async () => {
+      const clock = createVirtualClock();
+      const throttled = throttle(() => clock.now(), { limit: 1, interval: 1000, clock });
+      const delays: number[] = [];
+      throttled.on('enqueue', ({ delay }) => delays.push(delay));
+
+      const promise = Promise.all([throttled(), throttled(), throttled(), throttled()]);
+      await clock.runAll();
+
+      expect(await promise).toEqual([0, 1000, 2000, 3000]);
+      expect(delays).toEqual([0, 1000, 2000, 3000]);
+    });
+
+    it('emits the duration and outcome of settled calls', async () => {
+      const listener = vi.fn();
+      const throttled = throttle(
+        async () => {
+          await new Promise((resolve) => setTimeout(resolve, 50));
+          throw new Error('Failed');
+        },
+        { limit: 1, interval: 100 }
+      );
+
+      throttled.on('settle', listener);
+      await expect(throttled()).rejects.toThrow('Failed');
+
+      const [{ duration, result }] = listener.mock.calls[0]!;
+      expect(inRange(duration, { start: 40, end: 100 })).toBe(true);
+      expect(result.status).toBe('rejected');
+    });
+
+    it('emits dropped and aborted calls', async () => {
+      const drop = vi.fn();
+      const abort = vi.fn();
+      const throttled = throttle((value: number) => value, {
+        limit: 1,
+        interval: 100,
+        maxQueueSize: 1,
+      });
+
+      throttled.on('drop', drop);
+      throttled.on('abort', abort);
+
+      const controller = new AbortController();
+      await throttled(1);
+      const aborted = throttled.withOptions({ signal: controller.signal })(2);
+      await expect(throttled(3)).rejects.toThrow(QueueFullError);
+
+      controller.abort(new Error('Aborted'));
+      await expect(aborted).rejects.toThrow('Aborted');
+
+      expect(drop).toHaveBeenCalledWith({ args: [3], key: undefined });
+      expect(abort).toHaveBeenCalledWith({ args: [2], key: undefined, reason: expect.any(Error) });
+    });
+
+    it('removes listeners', async () => {
+      const listener = vi.fn();
+      const throttled = throttle(() => {}, { limit: 10, interval: 100 });
+
+      const unsubscribe = throttled.on('start', listener);
+      await throttled();
+      unsubscribe();
+      await throttled();
+
+      throttled.on('start', listener);
+      throttled.off('start', listener);
+      await throttled();
+
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+
+    it('ignores listener errors', async () => {
+      const throttled = throttle(() => 'value', { limit: 10, interval: 100 });
+
+      throttled.on('start', () => {
+        throw new Error('Listener');
+      });
+
+      expect(await throttled()).toBe('value');
+    });
+  });
+
+  describe('stats', () => {
+    it('reports the totals and the wait times', async () => {
+      const throttled = throttle(() => {}, { limit: 1, interval: 100 });
+
+      await Promise.all([throttled(), throttled()]);
+      const { totals, wait, throughput, queueSize, activeCount } = throttled.stats();
+
+      expect(totals).toEqual({
+        enqueued: 2,
+        delayed: 1,
+        started: 2,
+        fulfilled: 2,
+        rejected: 0,
+        dropped: 0,
+        aborted: 0,
+      });
+      expect(inRange(wait.max, { start: 90, end: 150 })).toBe(true);
+      expect(wait.average).toBe(wait.max / 2);
+      expect(throughput).toBe(2);
+      expect(queueSize).toBe(0);
+      expect(activeCount).toBe(0);
+    });
+
+    it('reports the usage of each limit', async () => {
+      const throttled = throttle(() => {}, {
+        limits: [
+          { limit: 3, interval: 100 },
+          { limit: 10, interval: 1000 },
+        ],
+        strict: true,
+      });
+
+      await Promise.all([throttled(), throttled()]);
+      expect(throttled.stats().usage).toEqual([
+        { limit: 3, interval: 100, used: 2 },
+        { limit: 10, interval: 1000, used: 2 },
+      ]);
+
+      await new Promise((resolve) => setTimeout(resolve, 150));
+      expect(throttled.stats().usage.map(({ used }) => used)).toEqual([0, 2]);
+    });
+
+    it('reports the usage of a key', async () => {
+      const throttled = throttle((_: string) => {}, {
+        limit: 5,
+        interval: 1000,
+        key: (tenant) => tenant,
+      });
+
+      await Promise.all([throttled('a'), throttled('a'), throttled('b')]);
+      expect(throttled.stats().usage[0]!.used).toBe(2);
+      expect(throttled.stats('b').usage[0]!.used).toBe(1);
+      expect(throttled.stats('c').usage[0]!.used).toBe(0);
+    });
+  });
+
+  describe('clock', () => {
+    it('throttles on a virtual clock', async () => {
+      const clock = createVirtualClock();
+      const throttled = throttle(() => clock.now(), { limit: 2, interval: 1000, clock });
+
+      const promise = Promise.all(Array.from({ length: 5 }, () => throttled()));
+      await clock.advance(2000);
+
+      expect(await promise).toEqual([0, 0, 1000, 1000, 2000]);
+    });
+
+    it('starts with a full token bucket at any time', async () => {
+      const clock = createVirtualClock();
+      const throttled = throttle(() => clock.now(), {
+        limit: 2,
+        interval: 1000,
+        tokenBucket: true,
+        clock,
+      });
+
+      const promise = Promise.all([throttled(), throttled(), throttled()]);
+      await clock.runAll();
+
+      expect(await promise).toEqual([0, 0, 500]);
+    });
+
+    it('runs all pending timers', async () => {
+      const clock = createVirtualClock(1000);
+      const throttled = throttle(() => clock.now(), {
+        limit: 1,
+        interval: 100,
+        strict: true,
+        clock,
+      });
+
+      const promise = Promise.all([throttled(), throttled(), throttled()]);
+      await clock.runAll();
+
+      expect(await promise).toEqual([1000, 1100, 1200]);
+      expect(clock.pendingTimers).toBe(0);
+    });
+
+    it('waits for settled calls before firing the next timer', async () => {
+      const clock = createVirtualClock();
+      const throttled = throttle(
+        async () => {
+          const start = clock.now();
+          await new Promise<void>((resolve) => clock.setTimeout(resolve, 300));
+          return start;
+        },
+        { limit: 10, interval: 100, concurrency: 1, clock }
+      );
+
+      const promise = Promise.all([throttled(), throttled()]);
+      await clock.advance(600);
+
+      expect(await promise).toEqual([0, 300]);
+    });
+
+    it('backs off retries on the clock', async () => {
+      const clock = createVirtualClock();
+      const times: number[] = [];
+      const throttled = throttle(
+        () => {
+          times.push(clock.now());
+          if (times.length < 3) {
+            throw new Error('Transient');
+          }
+        },
+        { limit: 10, interval: 100, retry: { minDelay: 100, jitter: false }, clock }
+      );
+
+      const promise = throttled();
+      await clock.advance(300);
+      await promise;
+
+      expect(times).toEqual([0, 100, 300]);
+    });
+
+    it('times out draining on the clock', async () => {
+      const clock = createVirtualClock();
+      const throttled = throttle(() => {}, { limit: 1, interval: 1000, clock });
+
+      const promises = [throttled(), throttled()];
+      const drained = throttled.drain({ timeout: 500 });
+      await clock.advance(500);
+
+      expect(await drained).toBe(false);
+      await clock.advance(500);
+      await Promise.all(promises);
+    });
+
+    it('cancels timers', async () => {
+      const clock = createVirtualClock();
+      const callback = vi.fn();
+
+      const handle = clock.setTimeout(callback, 100);
+      clock.clearTimeout(handle);
+      await clock.advance(100);
+
+      expect(callback).not.toHaveBeenCalled();
+      expect(clock.now()).toBe(100);
+    });
+
+    it('validates the clock', async () => {
+      expect(() =>
+        throttle(() => {}, { limit: 1, interval: 100, clock: { now: () => 0 } as any })
+      ).toThrow('Expected `clock` to implement `now`, `setTimeout` and `clearTimeout`');
+
+      await expect(createVirtualClock().advance(-1)).rejects.toThrow(
+        'Expected `milliseconds` to be a finite number >= 0'
+      );
+    });
+  });
+
+  describe('actualWeight', () => {
+    it('charges the difference to the actual weight', async () => {
+      const clock = createVirtualClock();
+      const throttled = throttle(() => clock.now(), {
+        limit: 10,
+        interval: 1000,
+        strict: true,
+        weight: () => 1,
+        actualWeight: () => 10,
+        clock,
+      });
+
+      expect(await throttled()).toBe(0);
+      const promise = throttled();
+      await clock.runAll();
+
+      expect(await promise).toBe(1000);
+    });
+
+    it('refunds the difference to the actual weight', async () => {
+      const clock = createVirtualClock();
+      const throttled = throttle(() => clock.now(), {
+        limit: 10,
+        interval: 1000,
+        weight: () => 6,
+        actualWeight: () => 2,
+        clock,
+      });
+
+      const promise = Promise.all([throttled(), throttled()]);
+      await clock.runAll();
+
+      expect(await promise).toEqual([0, 0]);
+    });
+
+    it('reconciles every algorithm', async () => {
+      // The token bucket allows a burst of 4, so only the next token has to be refilled
+      for (const [options, expected] of [
+        [{}, 1000],
+        [{ strict: true }, 1000],
+        [{ tokenBucket: true }, 250],
+        [{ gcra: true }, 1000],
+      ] as const) {
+        const clock = createVirtualClock();
+        const throttled = throttle(() => clock.now(), {
+          limit: 4,
+          interval: 1000,
+          actualWeight: () => 4,
+          clock,
+          ...options,
+        });
+
+        await throttled();
+        const promise = throttled();
+        await clock.runAll();
+
+        expect(await promise).toBe(expected);
+      }
+    });
+
+    it('passes the outcome and arguments', async () => {
+      const actualWeight = vi.fn(() => undefined);
+      const throttled = throttle((value: number) => value * 2, {
+        limit: 10,
+        interval: 1000,
+        actualWeight,
+      });
+
+      await throttled(2);
+      expect(actualWeight).toHaveBeenCalledWith({ status: 'fulfilled', value: 4 }, 2);
+    });
+
+    it('ignores invalid actual weights and errors', async () => {
+      const clock = createVirtualClock();
+      let index = 0;
+      const throttled = throttle(() => clock.now(), {
+        limit: 2,
+        interval: 1000,
+        actualWeight: () => {
+          index++;
+          if (index === 1) {
+            throw new Error('Failed');
+          }
+
+          return Number.NaN;
+        },
+        clock,
+      });
+
+      const promise = Promise.all([throttled(), throttled(), throttled()]);
+      await clock.runAll();
+
+      expect(await promise).toEqual([0, 0, 1000]);
+    });
+  });
+
+  describe('async weight', () => {
+    it('queues calls once their weight resolves', async () => {
+      const clock = createVirtualClock();
+      const throttled = throttle((value: number) => [value, clock.now()], {
+        limit: 10,
+        interval: 1000,
+        weight: async (value: number) => value,
+        clock,
+      });
+
+      const promise = Promise.all([throttled(6), throttled(6)]);
+      await clock.runAll();
+
+      expect(await promise).toEqual([
+        [6, 0],
+        [6, 1000],
+      ]);
+    });
+
+    it('rejects when the weight is invalid or its lookup fails', async () => {
+      const throttled = throttle((_: number) => {}, {
+        limit: 10,
+        interval: 1000,
+        weight: async (value: number) => {
+          if (value < 0) {
+            throw new Error('Lookup failed');
+          }
+
+          return value;
+        },
+      });
+
+      await expect(throttled(-1)).rejects.toThrow('Lookup failed');
+      await expect(throttled(11)).rejects.toThrow('Expected `weight` (11) to be <= `limit` (10)');
+    });
+
+    it('counts pending lookups as not idle', async () => {
+      const clock = createVirtualClock();
+      let resolveWeight: (weight: number) => void = () => {};
+      const throttled = throttle(() => {}, {
+        limit: 10,
+        interval: 1000,
+        weight: () => new Promise<number>((resolve) => (resolveWeight = resolve)),
+        clock,
+      });
+
+      const promise = throttled();
+      let isIdle = false;
+      const idle = throttled.onIdle().then(() => (isIdle = true));
+
+      await clock.advance(0);
+      expect(isIdle).toBe(false);
+
+      resolveWeight(1);
+      await Promise.all([promise, idle]);
+    });
+  });
+
+  describe('dedupe', () => {
+    it('shares identical queued calls', async () => {
+      const clock = createVirtualClock();
+      const function_ = vi.fn((value: number) => ({ value, time: clock.now() }));
+      const throttled = throttle(function_, { limit: 1, interval: 1000, dedupe: true, clock });
+
+      await throttled(0);
+      const promises = [throttled(1), throttled(1), throttled(2)];
+      expect(throttled.queueSize).toBe(2);
+
+      await clock.runAll();
+      const [first, second, third] = await Promise.all(promises);
+
+      expect(first).toBe(second);
+      expect(first).toEqual({ value: 1, time: 1000 });
+      expect(third).toEqual({ value: 2, time: 2000 });
+      expect(function_).toHaveBeenCalledTimes(3);
+    });
+
+    it('shares running calls', async () => {
+      let runs = 0;
+      const throttled = throttle(
+        async (_: string) => {
+          runs++;
+          await new Promise((resolve) => setTimeout(resolve, 20));
+          return runs;
+        },
+        { limit: 10, interval: 100, dedupe: { key: (url) => url } }
+      );
+
+      const first = throttled('/users');
+      const second = throttled('/users');
+
+      expect(await Promise.all([first, second])).toEqual([1, 1]);
+      expect(await throttled('/users')).toBe(2);
+    });
+
+    it('reuses fulfilled values within the ttl', async () => {
+      const clock = createVirtualClock();
+      const function_ = vi.fn(() => clock.now());
+      const throttled = throttle(function_, {
+        limit: 10,
+        interval: 100,
+        dedupe: { ttl: 500 },
+        clock,
+      });
+
+      expect(await throttled()).toBe(0);
+      await clock.advance(499);
+      expect(await throttled()).toBe(0);
+      await clock.advance(1);
+      expect(await throttled()).toBe(500);
+      expect(function_).toHaveBeenCalledTimes(2);
+    });
+
+    it('does not reuse rejected calls', async () => {
+      let attempts = 0;
+      const throttled = throttle(
+        () => {
+          attempts++;
+          throw new Error('Failed');
+        },
+        { limit: 10, interval: 100, dedupe: { ttl: 1000 } }
+      );
+
+      await expect(throttled()).rejects.toThrow('Failed');
+      await expect(throttled()).rejects.toThrow('Failed');
+      expect(attempts).toBe(2);
+    });
+
+    it('only aborts the shared call once every caller aborted', async () => {
+      const clock = createVirtualClock();
+      const function_ = vi.fn(() => clock.now());
+      const throttled = throttle(function_, { limit: 1, interval: 1000, dedupe: true, clock });
+
+      await throttled();
+      const firstController = new AbortController();
+      const secondController = new AbortController();
+      const first = throttled.withOptions({ signal: firstController.signal })();
+      const second = throttled.withOptions({ signal: secondController.signal })();
+
+      firstController.abort(new Error('First'));
+      await expect(first).rejects.toThrow('First');
+      expect(throttled.queueSize).toBe(1);
+
+      secondController.abort(new Error('Second'));
+      await expect(second).rejects.toThrow('Second');
+      expect(throttled.queueSize).toBe(0);
+
+      await clock.runAll();
+      expect(function_).toHaveBeenCalledTimes(1);
+    });
+
+    it('starts a new call for callers that come right after every caller aborted', async () => {
+      const clock = createVirtualClock();
+      const throttled = throttle(() => clock.now(), {
+        limit: 1,
+        interval: 1000,
+        dedupe: true,
+        clock,
+      });
+
+      await throttled();
+      const controller = new AbortController();
+      const aborted = throttled.withOptions({ signal: controller.signal })();
+      controller.abort(new Error('Aborted'));
+      const next = throttled();
+
+      await expect(aborted).rejects.toThrow('Aborted');
+      await clock.runAll();
+      expect(await next).toBe(1000);
+    });
+
+    it('keeps the shared call when a caller without a signal remains', async () => {
+      const clock = createVirtualClock();
+      const throttled = throttle(() => clock.now(), {
+        limit: 1,
+        interval: 1000,
+        dedupe: true,
+        clock,
+      });
+
+      await throttled();
+      const controller = new AbortController();
+      const aborted = throttled.withOptions({ signal: controller.signal })();
+      const remaining = throttled();
+
+      controller.abort(new Error('Aborted'));
+      await expect(aborted).rejects.toThrow('Aborted');
+
+      await clock.runAll();
+      expect(await remaining).toBe(1000);
+    });
+
+    it('charges the weight once', async () => {
+      const clock = createVirtualClock();
+      const throttled = throttle((_: number) => clock.now(), {
+        limit: 10,
+        interval: 1000,
+        weight: (value: number) => value,
+        dedupe: true,
+        clock,
+      });
+
+      const promise = Promise.all([throttled(6), throttled(6), throttled(4)]);
+      await clock.runAll();
+
+      expect(await promise).toEqual([0, 0, 0]);
+    });
+
+    it('validates the options', async () => {
+      expect(() =>
+        throttle(() => {}, { limit: 1, interval: 100, dedupe: { key: 'url' as any } })
+      ).toThrow('Expected `dedupe.key` to be a function');
+      expect(() => throttle(() => {}, { limit: 1, interval: 100, dedupe: { ttl: -1 } })).toThrow(
+        'Expected `dedupe.ttl` to be a finite number >= 0'
+      );
+
+      const throttled = throttle(() => {}, {
+        limit: 1,
+        interval: 100,
+        dedupe: { key: () => 1 as any },
+      });
+      await expect(throttled()).rejects.toThrow('Expected `dedupe.key` to return a string');
+    });
+  });
+
+  describe('batch', () => {
+    it('merges queued calls into one batch', async () => {
+      const clock = createVirtualClock();
+      const run = vi.fn((calls: readonly (readonly any[])[]) =>
+        calls.map(([id]) => `batched ${id}`)
+      );
+      const throttled = throttle((id: number) => `single ${id}`, {
+        limit: 1,
+        interval: 1000,
+        batch: { run },
+        clock,
+      });
+
+      const promise = Promise.all([throttled(1), throttled(2), throttled(3), throttled(4)]);
+      expect(throttled.queueSize).toBe(3);
+
+      await clock.advance(1000);
+      expect(await promise).toEqual(['single 1', 'batched 2', 'batched 3', 'batched 4']);
+      expect(run).toHaveBeenCalledTimes(1);
+      expect(run).toHaveBeenCalledWith([[2], [3], [4]]);
+    });
+
+    it('limits the batch size', async () => {
+      const clock = createVirtualClock();
+      const throttled = throttle((id: number) => [id, clock.now()], {
+        limit: 1,
+        interval: 1000,
+        batch: { run: (calls) => calls.map(([id]) => [id, clock.now()]), maxSize: 2 },
+        clock,
+      });
+
+      const promise = Promise.all([throttled(1), throttled(2), throttled(3), throttled(4)]);
+      await clock.runAll();
+
+      expect(await promise).toEqual([
+        [1, 0],
+        [2, 1000],
+        [3, 1000],
+        [4, 2000],
+      ]);
+    });
+
+    it('splits the batch result', async () => {
+      const clock = createVirtualClock();
+      const throttled = throttle((id: string) => ({ id }), {
+        limit: 1,
+        interval: 1000,
+        batch: {
+          run: (calls) => ({ users: calls.map(([id]) => ({ id })).filter(({ id }) => id !== 'c') }),
+          split: (result, calls) =>
+            calls.map(
+              ([id]) =>
+                result.users.find((user: any) => user.id === id) ?? new Error(`Missing ${id}`)
+            ),
+        },
+        clock,
+      });
+
+      await throttled('a');
+      const results = Promise.allSettled([throttled('b'), throttled('c')]);
+      await clock.runAll();
+
+      expect(await results).toEqual([
+        { status: 'fulfilled', value: { id: 'b' } },
+        { status: 'rejected', reason: new Error('Missing c') },
+      ]);
+    });
+
+    it('rejects every call of a failed batch', async () => {
+      const clock = createVirtualClock();
+      const throttled = throttle((_: number) => {}, {
+        limit: 1,
+        interval: 1000,
+        batch: {
+          run: () => {
+            throw new Error('Batch failed');
+          },
+        },
+        clock,
+      });
+
+      await throttled(1);
+      const promises = [throttled(2), throttled(3)].map((promise) =>
+        promise.then(
+          () => 'fulfilled',
+          (error: Error) => error.message
+        )
+      );
+      await clock.runAll();
+
+      expect(await Promise.all(promises)).toEqual(['Batch failed', 'Batch failed']);
+    });
+
+    it('rejects when the batch result does not match the calls', async () => {
+      const clock = createVirtualClock();
+      const throttled = throttle((_: number) => {}, {
+        limit: 1,
+        interval: 1000,
+        batch: { run: () => ['only one'] },
+        clock,
+      });
+
+      await throttled(1);
+      const results = Promise.allSettled([throttled(2), throttled(3)]);
+      await clock.runAll();
+
+      const error = new TypeError(
+        'Expected the batch result to be an array with one item per call (2)'
+      );
+      expect(await results).toEqual([
+        { status: 'rejected', reason: error },
+        { status: 'rejected', reason: error },
+      ]);
+    });
+
+    it('counts a batch as one active call', async () => {
+      const clock = createVirtualClock();
+      const throttled = throttle((_: number) => {}, {
+        limit: 1,
+        interval: 1000,
+        concurrency: 1,
+        batch: {
+          run: async (calls) => {
+            await new Promise<void>((resolve) => clock.setTimeout(resolve, 100));
+            return calls.map(() => undefined);
+          },
+        },
+        clock,
+      });
+
+      await throttled(1);
+      const promises = [throttled(2), throttled(3)];
+      await clock.advance(1000);
+
+      expect(throttled.activeCount).toBe(1);
+      expect(throttled.queueSize).toBe(0);
+      await clock.advance(100);
+      await Promise.all(promises);
+      expect(throttled.activeCount).toBe(0);
+    });
+
+    it('validates the options', () => {
+      expect(() => throttle(() => {}, { limit: 1, interval: 100, batch: {} as any })).toThrow(
+        'Expected `batch.run` to be a function'
+      );
+      expect(() =>
+        throttle(() => {}, { limit: 1, interval: 100, batch: { run: () => [], maxSize: 0 } })
+      ).toThrow('Expected `batch.maxSize` to be >= 1');
+    });
+  });
+
+  describe('maxWait', () => {
+    it('rejects calls that would wait too long', async () => {
+      const clock = createVirtualClock();
+      const throttled = throttle(() => clock.now(), {
+        limit: 1,
+        interval: 1000,
+        maxWait: 500,
+        clock,
+      });
+
+      await throttled();
+      await expect(throttled()).rejects.toThrow(WaitTimeoutError);
+      expect(throttled.queueSize).toBe(0);
+
+      await clock.advance(500);
+      const promise = throttled();
+      await clock.advance(500);
+      expect(await promise).toBe(1000);
+    });
+
+    it('does not consume the slot of rejected calls', async () => {
+      const clock = createVirtualClock();
+      const throttled = throttle(() => clock.now(), {
+        limit: 2,
+        interval: 1000,
+        strict: true,
+        maxWait: 100,
+        clock,
+      });
+
+      await throttled();
+      await clock.advance(600);
+      await throttled();
+      await expect(throttled()).rejects.toThrow(WaitTimeoutError);
+
+      await clock.advance(400);
+      expect(await throttled()).toBe(1000);
+    });
+
+    it('rejects queued calls once they waited too long', async () => {
+      const clock = createVirtualClock();
+      const throttled = throttle(() => clock.now(), {
+        limit: 1,
+        interval: 1000,
+        maxWait: 1500,
+        clock,
+      });
+
+      const results = Promise.allSettled([throttled(), throttled()]);
+      // The queued call fitted in time when it was accepted, but the penalty pushes it back
+      throttled.penalize(2000);
+      await clock.runAll();
+
+      expect(await results).toEqual([
+        { status: 'fulfilled', value: 0 },
+        { status: 'rejected', reason: new WaitTimeoutError() },
+      ]);
+      expect(clock.now()).toBe(1500);
+    });
+
+    it('rejects calls right away when the calls queued ahead make them wait too long', async () => {
+      const clock = createVirtualClock();
+      const onDelay = vi.fn();
+      const throttled = throttle(() => clock.now(), {
+        limit: 1,
+        interval: 1000,
+        maxWait: 1500,
+        onDelay,
+        clock,
+      });
+
+      const accepted = Promise.all([throttled(), throttled()]);
+      const rejected = [throttled(), throttled()];
+
+      for (const promise of rejected) {
+        await expect(promise).rejects.toThrow(WaitTimeoutError);
+      }
+      expect(throttled.queueSize).toBe(1);
+      expect(onDelay).toHaveBeenCalledTimes(1);
+
+      await clock.runAll();
+      expect(await accepted).toEqual([0, 1000]);
+    });
+
+    it('counts the queue after calls were inserted ahead or aborted', async () => {
+      const clock = createVirtualClock();
+      const throttled = throttle((value: string) => `${value}@${clock.now()}`, {
+        limit: 1,
+        interval: 1000,
+        maxWait: 2500,
+        clock,
+      });
+
+      const controller = new AbortController();
+      const first = throttled('first');
+      const aborted = throttled.withOptions({ signal: controller.signal })('aborted');
+      const second = throttled('second');
+      controller.abort(new Error('Aborted'));
+      await expect(aborted).rejects.toThrow('Aborted');
+
+      // Fits the wait of 2000 behind the second call only because the aborted call no longer counts, until the urgent
+      // call is inserted ahead of it
+      const third = Promise.allSettled([throttled('third')]);
+      expect(throttled.queueSize).toBe(2);
+      const urgent = throttled.withOptions({ priority: 1 })('urgent');
+      await expect(throttled('late')).rejects.toThrow(WaitTimeoutError);
+
+      await clock.runAll();
+      expect(await Promise.all([first, urgent, second])).toEqual([
+        'first@0',
+        'urgent@1000',
+        'second@2000',
+      ]);
+      expect(await third).toEqual([{ status: 'rejected', reason: new WaitTimeoutError() }]);
+    });
+
+    it('enqueues many calls without replaying the queue for each', async () => {
+      const clock = createVirtualClock();
+      const throttled = throttle(() => clock.now(), {
+        limit: 100,
+        interval: 1,
+        maxWait: 1000,
+        clock,
+      });
+
+      const promise = Promise.all(Array.from({ length: 20_000 }, () => throttled()));
+      await clock.runAll();
+
+      expect((await promise).at(-1)).toBe(199);
+    });
+
+    it('supports a per-call deadline', async () => {
+      const clock = createVirtualClock();
+      const throttled = throttle(() => clock.now(), { limit: 1, interval: 1000, clock });
+
+      await throttled();
+      await expect(throttled.withOptions({ deadline: 999 })()).rejects.toThrow(WaitTimeoutError);
+
+      const promise = throttled.withOptions({ deadline: 1000 })();
+      await clock.advance(1000);
+      expect(await promise).toBe(1000);
+
+      await expect(throttled.withOptions({ deadline: Number.NaN })()).rejects.toThrow(
+        'Expected `deadline` to be a finite number'
+      );
+    });
+
+    it('validates the option', () => {
+      expect(() => throttle(() => {}, { limit: 1, interval: 100, maxWait: -1 })).toThrow(
+        'Expected `maxWait` to be a number >= 0'
+      );
+    });
+  });
+
+  describe('estimateDelay', () => {
+    it('estimates the delay including queued calls', async () => {
+      const clock = createVirtualClock();
+      const throttled = throttle(() => clock.now(), { limit: 2, interval: 1000, clock });
+
+      expect(throttled.estimateDelay()).toBe(0);
+
+      const promise = Promise.all([throttled(), throttled(), throttled()]);
+      expect(throttled.estimateDelay()).toBe(1000);
+
+      throttled();
+      expect(throttled.estimateDelay()).toBe(2000);
+
+      await clock.advance(300);
+      expect(throttled.estimateDelay()).toBe(1700);
+
+      await clock.runAll();
+      await promise;
+    });
+
+    it('respects weight, priority and strict mode', async () => {
+      const clock = createVirtualClock();
+      const throttled = throttle((_weight: number, _priority = 0) => clock.now(), {
+        limit: 10,
+        interval: 1000,
+        strict: true,
+        weight: (weight: number) => weight,
+        priority: (_weight: number, priority = 0) => priority,
+        clock,
+      });
+
+      await throttled(6);
+      await clock.advance(200);
+      await throttled(4);
+
+      expect(throttled.estimateDelay(1)).toBe(800);
+      expect(throttled.estimateDelay(7)).toBe(1000);
+
+      const queued = throttled(6);
+      expect(throttled.estimateDelay(1)).toBe(1000);
+      expect(throttled.estimateDelay(1, 1)).toBe(800);
+
+      await clock.runAll();
+      await queued;
+    });
+
+    it('does not affect the state', async () => {
+      const clock = createVirtualClock();
+      const throttled = throttle(() => clock.now(), { limit: 1, interval: 1000, clock });
+
+      throttled.estimateDelay();
+      throttled.estimateDelay();
+      expect(await throttled()).toBe(0);
+      expect(throttled.stats().totals.enqueued).toBe(1);
+    });
+
+    it('estimates the delay of a key', async () => {
+      const clock = createVirtualClock();
+      const throttled = throttle((_: string) => {}, {
+        limit: 1,
+        interval: 1000,
+        key: (tenant) => tenant,
+        clock,
+      });
+
+      await throttled('a');
+      expect(throttled.estimateDelay('a')).toBe(1000);
+      expect(throttled.estimateDelay('b')).toBe(0);
+      expect(throttled.keys()).toEqual(['a']);
+    });
+
+    it('returns Infinity while paused', () => {
+      const throttled = throttle(() => {}, { limit: 1, interval: 1000 });
+
+      throttled.pause();
+      expect(throttled.estimateDelay()).toBe(Number.POSITIVE_INFINITY);
+    });
+
+    it('requires a synchronous weight', () => {
+      const throttled = throttle(() => {}, { limit: 1, interval: 1000, weight: async () => 1 });
+
+      expect(() => throttled.estimateDelay()).toThrow(
+        'Expected `weight` to return a number to estimate the delay'
+      );
+    });
+  });
+
+  describe('tryCall', () => {
+    it('runs the call when it can start right away', async () => {
+      const throttled = throttle((value: number) => value * 2, { limit: 1, interval: 1000 });
+
+      expect(await throttled.tryCall(2)).toBe(4);
+    });
+
+    it('rejects without queueing when the call would wait', async () => {
+      const clock = createVirtualClock();
+      const function_ = vi.fn(() => clock.now());
+      const throttled = throttle(function_, { limit: 1, interval: 1000, clock });
+
+      await throttled();
+      await expect(throttled.tryCall()).rejects.toThrow(WaitTimeoutError);
+      expect(throttled.queueSize).toBe(0);
+
+      await clock.advance(1000);
+      expect(await throttled.tryCall()).toBe(1000);
+      expect(function_).toHaveBeenCalledTimes(2);
+    });
+
+    it('rejects when calls are queued or running at the concurrency limit', async () => {
+      const clock = createVirtualClock();
+      const throttled = throttle(
+        () => new Promise<void>((resolve) => clock.setTimeout(resolve, 100)),
+        { limit: 10, interval: 1000, concurrency: 1, clock }
+      );
+
+      const running = throttled();
+      await expect(throttled.tryCall()).rejects.toThrow(
+        'Throttle cannot start the call immediately'
+      );
+
+      await clock.advance(100);
+      await running;
+    });
+  });
+
+  describe('limiter option', () => {
+    it('shares the limits between functions', async () => {
+      const clock = createVirtualClock();
+      const limiter = new RateLimiter({ limit: 2, interval: 1000, clock });
+      const first = throttle(() => clock.now(), { limiter });
+      const second = throttle(() => clock.now(), { limiter });
+
+      const results = Promise.all([first(), second(), first(), second()]);
+      await clock.runAll();
+
+      expect(await results).toEqual([0, 0, 1000, 1000]);
+      expect(first.queueSize).toBe(0);
+    });
+
+    it('shares the limits between functions of a throttle created with options only', async () => {
+      const clock = createVirtualClock();
+      const onDelay = vi.fn();
+      const throttleShared = throttle({ limit: 1, interval: 1000, onDelay, clock });
+      const first = throttleShared(() => clock.now());
+      const second = throttleShared(() => clock.now());
+
+      const results = Promise.all([first(), second()]);
+      await clock.runAll();
+
+      expect(await results).toEqual([0, 1000]);
+      expect(onDelay).toHaveBeenCalledTimes(1);
+    });
+
+    it('keeps the events and totals of each function apart', async () => {
+      const clock = createVirtualClock();
+      const limiter = new RateLimiter({ limit: 1, interval: 1000, maxQueueSize: 1, clock });
+      const onDrop = vi.fn();
+      const first = throttle((value: number) => value, { limiter, onDrop });
+      const second = throttle((value: number) => value, { limiter });
+
+      await first(1);
+      const queued = first(2);
+      const dropped = second(3);
+
+      await expect(dropped).rejects.toThrow(QueueFullError);
+      expect(onDrop).not.toHaveBeenCalled();
+      expect(second.stats().totals.dropped).toBe(1);
+
+      await clock.runAll();
+      expect(await queued).toBe(2);
+      expect(first.stats().totals).toMatchObject({ started: 2, dropped: 0 });
+    });
+
+    it('applies configure to every function sharing the limiter', async () => {
+      const clock = createVirtualClock();
+      const limiter = new RateLimiter({ limit: 1, interval: 1000, clock });
+      const first = throttle(() => clock.now(), { limiter });
+      const second = throttle(() => clock.now(), { limiter });
+
+      first.configure({ limit: 2 });
+      const results = Promise.all([second(), second()]);
+      await clock.runAll();
+
+      expect(await results).toEqual([0, 0]);
+    });
+
+    it('validates the limiter', () => {
+      const limiter = new RateLimiter({ limit: 1, interval: 1000 });
+
+      expect(() => throttle(() => {}, { limiter: {} as any })).toThrow(
+        'Expected `limiter` to be a `RateLimiter`'
+      );
+      expect(() => throttle(() => {}, { limiter, limit: 2 })).toThrow(
+        'The `limiter` option cannot be used with `limit`'
+      );
+    });
+  });
+
+  describe('snapshot and initialState', () => {
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    // Restarting the process starts the clock over, and the snapshot goes through JSON like when saved to a file
+    const restart = (throttled: { snapshot: () => ThrottleSnapshot }, elapsed = 0) => {
+      const initialState = JSON.parse(JSON.stringify(throttled.snapshot())) as ThrottleSnapshot;
+      vi.spyOn(Date, 'now').mockReturnValue(initialState.savedAt + elapsed);
+      return { clock: createVirtualClock(), initialState };
+    };
+
+    it('restores the usage after a restart', async () => {
+      const clock = createVirtualClock();
+      const throttled = throttle(() => clock.now(), { limit: 2, interval: 1000, clock });
+      await Promise.all([throttled(), throttled()]);
+
+      const restored = restart(throttled);
+      const restoredThrottled = throttle(() => restored.clock.now(), {
+        limit: 2,
+        interval: 1000,
+        ...restored,
+      });
+
+      const result = restoredThrottled();
+      await restored.clock.runAll();
+      expect(await result).toBe(1000);
+    });
+
+    it('moves the usage by the wall-clock time that passed', async () => {
+      const clock = createVirtualClock();
+      const throttled = throttle(() => clock.now(), {
+        limit: 2,
+        interval: 1000,
+        strict: true,
+        clock,
+      });
+      await Promise.all([throttled(), throttled()]);
+
+      const restored = restart(throttled, 600);
+      const restoredThrottled = throttle(() => restored.clock.now(), {
+        limit: 2,
+        interval: 1000,
+        strict: true,
+        ...restored,
+      });
+
+      const results = Promise.all([restoredThrottled(), restoredThrottled()]);
+      await restored.clock.runAll();
+      // Like 1000 and 1500 would have been without the restart
+      expect(await results).toEqual([400, 900]);
+    });
+
+    it('restores the state of each key and limit', async () => {
+      const clock = createVirtualClock();
+      const options = {
+        limits: [
+          { limit: 1, interval: 1000 },
+          { limit: 2, interval: 10_000 },
+        ],
+        key: (key: string) => key,
+      };
+      const throttled = throttle((_key: string) => clock.now(), { ...options, clock });
+      const calls = Promise.all([throttled('a'), throttled('a')]);
+      await clock.runAll();
+      await calls;
+
+      const restored = restart(throttled);
+      const restoredThrottled = throttle((_key: string) => restored.clock.now(), {
+        ...options,
+        ...restored,
+      });
+
+      const results = Promise.all([restoredThrottled('a'), restoredThrottled('b')]);
+      await restored.clock.runAll();
+      expect(await results).toEqual([9000, 0]);
+      expect(restoredThrottled.keys().sort()).toEqual(['a', 'b']);
+    });
+
+    it('restores the token bucket and the feedback', async () => {
+      const clock = createVirtualClock();
+      const limiter = new RateLimiter({ limit: 2, interval: 1000, tokenBucket: true, clock });
+      await limiter.acquire(2);
+      limiter.penalize(5000);
+
+      const restored = restart(limiter, 1000);
+      const restoredLimiter = new RateLimiter({
+        limit: 2,
+        interval: 1000,
+        tokenBucket: true,
+        ...restored,
+      });
+
+      expect(restoredLimiter.tryAcquire()).toBe(false);
+      await restored.clock.advance(4000);
+      expect(restoredLimiter.tryAcquire(2)).toBe(true);
+    });
+
+    it('validates the initial state', () => {
+      const throttled = throttle(() => {}, { limit: 1, interval: 1000 });
+
+      expect(() =>
+        throttle(() => {}, { limit: 1, interval: 1000, initialState: {} as any })
+      ).toThrow('Expected `initialState` to be a snapshot taken by `snapshot()`');
+      expect(() =>
+        throttle(() => {}, {
+          limits: [
+            { limit: 1, interval: 1000 },
+            { limit: 2, interval: 2000 },
+          ],
+          initialState: throttled.snapshot(),
+        })
+      ).toThrow('Expected `initialState` to have a state for each of the limits');
+    });
+  });
+
+  describe('store option', () => {
+    // Stands in for a store backed by a remote service, such as Redis
+    const createAsyncStore = (): ThrottleStore => {
+      const store = createMemoryStore();
+      return {
+        reserve: async (request) => {
+          await Promise.resolve();
+          return store.reserve(request);
+        },
+      };
+    };
+
+    it('shares the quota between functions with the same store', async () => {
+      const clock = createVirtualClock();
+      const store = createMemoryStore();
+      const first = throttle(() => clock.now(), { limit: 2, interval: 1000, store, clock });
+      const second = throttle(() => clock.now(), { limit: 2, interval: 1000, store, clock });
+
+      const results = Promise.all([first(), second(), first(), second()]);
+      await clock.runAll();
+
+      expect(await results).toEqual([0, 0, 1000, 1000]);
+    });
+
+    it('keeps the state of each key apart', async () => {
+      const clock = createVirtualClock();
+      const throttled = throttle((key: string) => `${key}@${clock.now()}`, {
+        limit: 1,
+        interval: 1000,
+        key: (key) => key,
+        store: createMemoryStore(),
+        clock,
+      });
+
+      const results = Promise.all([throttled('a'), throttled('b'), throttled('a')]);
+      await clock.runAll();
+
+      expect(await results).toEqual(['a@0', 'b@0', 'a@1000']);
+    });
+
+    it('tracks the weight of each call in strict mode', async () => {
+      const clock = createVirtualClock();
+      const throttled = throttle((_weight: number) => clock.now(), {
+        limit: 10,
+        interval: 1000,
+        strict: true,
+        weight: (weight) => weight,
+        store: createMemoryStore(),
+        clock,
+      });
+
+      const results = Promise.all([throttled(6), throttled(4), throttled(5)]);
+      await clock.runAll();
+
+      expect(await results).toEqual([0, 0, 1000]);
+    });
+
+    it('waits for an async store in order', async () => {
+      const clock = createVirtualClock();
+      const throttled = throttle((value: number) => `${value}@${clock.now()}`, {
+        limit: 2,
+        interval: 1000,
+        concurrency: 1,
+        store: createAsyncStore(),
+        clock,
+      });
+
+      const results = Promise.all([1, 2, 3, 4, 5].map((value) => throttled(value)));
+      await clock.runAll();
+
+      expect(await results).toEqual(['1@0', '2@0', '3@1000', '4@1000', '5@2000']);
+    });
+
+    it('hands the weight reserved for an aborted call to the next call', async () => {
+      const clock = createVirtualClock();
+      const throttled = throttle(() => clock.now(), {
+        limit: 1,
+        interval: 1000,
+        store: createAsyncStore(),
+        clock,
+      });
+
+      const controller = new AbortController();
+      const aborted = throttled.withOptions({ signal: controller.signal })();
+      const next = throttled();
+      controller.abort(new Error('Aborted'));
+
+      await expect(aborted).rejects.toThrow('Aborted');
+      await clock.runAll();
+      expect(await next).toBe(0);
+    });
+
+    it('hands the weight reserved for a removed queued call to the next call', async () => {
+      const clock = createVirtualClock();
+      const store = createMemoryStore();
+      const confirmations: (() => void)[] = [];
+      const throttled = throttle((value: number) => `${value}@${clock.now()}`, {
+        limit: 1,
+        interval: 1000,
+        store: {
+          reserve: async (request) =>
+            new Promise((resolve) => {
+              confirmations.push(() => resolve(store.reserve(request)));
+            }),
+        },
+        clock,
+      });
+      const confirm = async () => {
+        confirmations.shift()!();
+        await clock.advance(0);
+      };
+
+      const first = throttled(1);
+      await confirm();
+      const controller = new AbortController();
+      const aborted = throttled.withOptions({ signal: controller.signal })(2);
+      // Queued with a delay, the call asks the store again right away and once more when the delay passed
+      await confirm();
+      await confirm();
+      const next = throttled(3);
+      expect(throttled.queueSize).toBe(2);
+
+      // The store confirms the reservation of the second call after it was removed from the queue
+      await clock.advance(1000);
+      controller.abort(new Error('Aborted'));
+      await expect(aborted).rejects.toThrow('Aborted');
+      await confirm();
+
+      expect(await Promise.all([first, next])).toEqual(['1@0', '3@1000']);
+    });
+
+    it('rejects the call when the store fails', async () => {
+      const clock = createVirtualClock();
+      const error = new Error('Store is unavailable');
+      const throttled = throttle(() => 'result', {
+        limit: 1,
+        interval: 1000,
+        store: { reserve: async () => Promise.reject(error) },
+        clock,
+      });
+
+      await expect(throttled()).rejects.toBe(error);
+      await expect(throttled()).rejects.toBe(error);
+      expect(throttled.queueSize).toBe(0);
+    });
+
+    it('supports tryCall with an async store', async () => {
+      const clock = createVirtualClock();
+      const throttled = throttle(() => 'result', {
+        limit: 1,
+        interval: 1000,
+        store: createAsyncStore(),
+        clock,
+      });
+
+      await expect(throttled.tryCall()).resolves.toBe('result');
+      await expect(throttled.tryCall()).rejects.toThrow(WaitTimeoutError);
+    });
+
+    it('supports tryAcquire with a sync store only', () => {
+      const limiter = new RateLimiter({ limit: 1, interval: 1000, store: createMemoryStore() });
+      const asyncLimiter = new RateLimiter({ limit: 1, interval: 1000, store: createAsyncStore() });
+
+      expect(limiter.tryAcquire()).toBe(true);
+      expect(limiter.tryAcquire()).toBe(false);
+      expect(() => asyncLimiter.tryAcquire()).toThrow(
+        'Expected `store.reserve` to return a number to start right away'
+      );
+    });
+
+    it('validates the store', () => {
+      const store = createMemoryStore();
+
+      expect(() => throttle(() => {}, { limit: 1, interval: 1000, store: {} as any })).toThrow(
+        'Expected `store` to implement `reserve`'
+      );
+      expect(() =>
+        throttle(() => {}, { limit: 1, interval: 1000, store, tokenBucket: true })
+      ).toThrow('The `store` option only supports the windowed, `strict` and `gcra` algorithms');
+      expect(() =>
+        throttle(() => {}, { limit: 1, interval: 1000, store, actualWeight: () => 1 })
+      ).toThrow('The `store` option cannot be used with `actualWeight`');
+      expect(() => throttle(() => {}, { limit: 1, interval: 1000, store }).estimateDelay()).toThrow(
+        'The `store` option does not support estimating the delay'
+      );
+    });
+  });
+});
+
+describe('RateLimiter', () => {
+  it('waits until the weight fits the limits', async () => {
+    const clock = createVirtualClock();
+    const limiter = new RateLimiter({ limit: 10, interval: 1000, clock });
+    const acquiredAt: number[] = [];
+
+    const acquisitions = [6, 4, 5].map((weight) =>
+      limiter.acquire(weight).then(() => acquiredAt.push(clock.now()))
+    );
+    await clock.runAll();
+    await Promise.all(acquisitions);
+
+    expect(acquiredAt).toEqual([0, 0, 1000]);
+  });
+
+  it('acquires only when the weight fits right away', async () => {
+    const clock = createVirtualClock();
+    const limiter = new RateLimiter({ limit: 2, interval: 1000, clock });
+
+    expect(limiter.tryAcquire()).toBe(true);
+    expect(limiter.tryAcquire(2)).toBe(false);
+    expect(limiter.tryAcquire()).toBe(true);
+    expect(limiter.tryAcquire()).toBe(false);
+    expect(limiter.queueSize).toBe(0);
+
+    await clock.advance(1000);
+    expect(limiter.tryAcquire(2)).toBe(true);
+    expect(() => limiter.tryAcquire(3)).toThrow('Expected `weight` (3) to be <= `limit` (2)');
+  });
+
+  it('queues acquisitions with the calls of throttled functions', async () => {
+    const clock = createVirtualClock();
+    const limiter = new RateLimiter({ limit: 1, interval: 1000, clock });
+    const throttled = throttle(() => clock.now(), { limiter });
+
+    const call = throttled();
+    const acquisition = limiter.acquire().then(() => clock.now());
+    const nextCall = throttled();
+    await clock.runAll();
+
+    expect(await Promise.all([call, acquisition, nextCall])).toEqual([0, 1000, 2000]);
+  });
+
+  it('removes an aborted acquisition from the queue', async () => {
+    const clock = createVirtualClock();
+    const limiter = new RateLimiter({ limit: 1, interval: 1000, clock });
+    const controller = new AbortController();
+
+    await limiter.acquire();
+    const acquisition = limiter.acquire(1, { signal: controller.signal });
+    expect(limiter.queueSize).toBe(1);
+
+    controller.abort(fixture);
+    await expect(acquisition).rejects.toBe(fixture);
+    expect(limiter.queueSize).toBe(0);
+  });
+
+  it('rejects acquisitions that do not fit the queue or the limits', async () => {
+    const limiter = new RateLimiter({ limit: 1, interval: 1000, maxQueueSize: 0 });
+
+    await limiter.acquire();
+    await expect(limiter.acquire()).rejects.toThrow(QueueFullError);
+    await expect(limiter.acquire(2)).rejects.toThrow('Expected `weight` (2) to be <= `limit` (1)');
+  });
+
+  it('holds acquisitions back while paused', async () => {
+    const clock = createVirtualClock();
+    const limiter = new RateLimiter({ limit: 10, interval: 1000, clock });
+
+    limiter.pause();
+    expect(limiter.isPaused).toBe(true);
+    expect(limiter.tryAcquire()).toBe(false);
+
+    const acquisition = limiter.acquire();
+    setTimeout(() => limiter.resume(), 0);
+    await acquisition;
+    expect(limiter.isPaused).toBe(false);
+  });
+});
+
+describe('throttleIterable', () => {
+  it('yields items at the throttled rate', async () => {
+    const clock = createVirtualClock();
+    const yieldedAt: number[] = [];
+
+    const iteration = (async () => {
+      for await (const item of throttleIterable([1, 2, 3], { limit: 2, interval: 1000, clock })) {
+        yieldedAt.push(item, clock.now());
+      }
+    })();
+    await clock.runAll();
+    await iteration;
+
+    expect(yieldedAt).toEqual([1, 0, 2, 0, 3, 1000]);
+  });
+
+  it('weighs each item', async () => {
+    const clock = createVirtualClock();
+    const chunks = throttleIterable(['abcdef', 'ghij', 'k'], {
+      limit: 10,
+      interval: 1000,
+      weight: (chunk: string) => chunk.length,
+      clock,
+    });
+
+    const yieldedAt: number[] = [];
+    const iteration = (async () => {
+      for await (const _ of chunks) {
+        yieldedAt.push(clock.now());
+      }
+    })();
+    await clock.runAll();
+    await iteration;
+
+    expect(yieldedAt).toEqual([0, 0, 1000]);
+  });
+
+  it('only pulls items from the source as they are consumed', async () => {
+    let pulled = 0;
+    const source = (function* () {
+      while (true) {
+        pulled++;
+        yield pulled;
+      }
+    })();
+
+    const items = throttleIterable(source, { limit: 10, interval: 1000 });
+    await items.next();
+    await items.next();
+    await items.return();
+
+    expect(pulled).toBe(2);
+  });
+
+  it('stops once the signal is aborted', async () => {
+    const controller = new AbortController();
+    const items = throttleIterable([1, 2, 3], {
+      limit: 10,
+      interval: 1000,
+      signal: controller.signal,
+    });
+
+    expect(await items.next()).toEqual({ value: 1, done: false });
+    controller.abort(fixture);
+    await expect(items.next()).rejects.toBe(fixture);
+  });
+
+  it('draws from a shared limiter', async () => {
+    const clock = createVirtualClock();
+    const limiter = new RateLimiter({ limit: 1, interval: 1000, clock });
+    const items = throttleIterable([1, 2], { limiter });
+
+    await limiter.acquire();
+    const next = items.next().then(() => clock.now());
+    await clock.runAll();
+
+    expect(await next).toBe(1000);
+  });
+});
+
+describe('createThrottleStream', () => {
+  it('emits chunks at the throttled rate', async () => {
+    const clock = createVirtualClock();
+    const stream = createThrottleStream<string>({ limit: 2, interval: 1000, clock });
+    const writer = stream.writable.getWriter();
+    const reader = stream.readable.getReader();
+
+    const emittedAt: number[] = [];
+    const reading = (async () => {
+      for (let result = await reader.read(); !result.done; result = await reader.read()) {
+        emittedAt.push(result.value.charCodeAt(0), clock.now());
+      }
+    })();
+
+    void writer.write('a');
+    void writer.write('b');
+    void writer.write('c');
+    void writer.close();
+    await clock.runAll();
+    await reading;
+
+    expect(emittedAt).toEqual([97, 0, 98, 0, 99, 1000]);
+  });
+
+  it('holds back the writable side while waiting', async () => {
+    const clock = createVirtualClock();
+    const stream = createThrottleStream<number>({ limit: 1, interval: 1000, clock });
+    const writer = stream.writable.getWriter();
+    const reader = stream.readable.getReader();
+
+    void writer.write(1);
+    void writer.write(2);
+    void writer.write(3);
+    expect(await reader.read()).toEqual({ value: 1, done: false });
+
+    const next = reader.read();
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(writer.desiredSize).toBeLessThan(0);
+
+    await clock.advance(1000);
+    expect(await next).toEqual({ value: 2, done: false });
+  });
+
+  it('works as a Node.js Transform stream', async () => {
+    const clock = createVirtualClock();
+    const transform = Duplex.fromWeb(
+      createThrottleStream<string>({
+        limit: 4,
+        interval: 1000,
+        weight: (chunk: string) => chunk.length,
+        clock,
+      }) as any,
+      { objectMode: true }
+    );
+
+    const chunks: string[] = [];
+    transform.on('data', (chunk: string) => chunks.push(`${chunk}@${clock.now()}`));
+    const finished = new Promise((resolve) => transform.on('end', resolve));
+
+    transform.write('ab');
+    transform.write('cd');
+    transform.end('ef');
+    await clock.runAll();
+    await finished;
+
+    expect(chunks).toEqual(['ab@0', 'cd@0', 'ef@1000']);
+  });
+});
+
+describe('createSharedStore', () => {
+  // Transfers the buffer like when passing it to a worker, which shares its memory instead of copying it
+  const transfer = async (buffer: SharedArrayBuffer) => {
+    const { port1, port2 } = new MessageChannel();
+    const received = new Promise<SharedArrayBuffer>((resolve) => {
+      port2.once('message', resolve);
+    });
+    port1.postMessage(buffer);
+    const result = await received;
+    port1.close();
+    return result;
+  };
+
+  it('shares the quota with the stores created from its buffer', async () => {
+    const clock = createVirtualClock();
+    const store = createSharedStore();
+    const first = throttle(() => clock.now(), { limit: 2, interval: 1000, store, clock });
+    const second = throttle(() => clock.now(), {
+      limit: 2,
+      interval: 1000,
+      store: createSharedStore(await transfer(store.buffer)),
+      clock,
+    });
+
+    const results = Promise.all([first(), second(), second(), first()]);
+    await clock.runAll();
+
+    expect(await results).toEqual([0, 0, 1000, 1000]);
+  });
+
+  it('accounts for the weight of each call', () => {
+    const first = createSharedStore();
+    const second = createSharedStore(first.buffer);
+    const request = { now: 0, limit: 10, interval: 1000, strict: false };
+
+    expect(first.reserve({ ...request, weight: 6 })).toBe(0);
+    expect(second.reserve({ ...request, weight: 5 })).toBe(1000);
+    expect(second.reserve({ ...request, weight: 4 })).toBe(0);
+    expect(first.reserve({ ...request, weight: 1 })).toBe(1000);
+  });
+
+  it('supports the gcra option', async () => {
+    const clock = createVirtualClock();
+    const store = createSharedStore();
+    const first = throttle(() => clock.now(), {
+      limit: 4,
+      interval: 1000,
+      gcra: true,
+      store,
+      clock,
+    });
+    const second = throttle(() => clock.now(), {
+      limit: 4,
+      interval: 1000,
+      gcra: true,
+      store: createSharedStore(store.buffer),
+      clock,
+    });
+
+    const results = Promise.all([first(), second(), first(), second()]);
+    await clock.runAll();
+
+    // The functions take turns in the order their timers fire, spaced out by the shared emission interval
+    expect((await results).sort((a, b) => a - b)).toEqual([0, 250, 500, 750]);
+  });
+
+  it('waits for a worker to release the lock', async () => {
+    const store = createSharedStore();
+    // Holds the lock at the start of the buffer like a reservation in the worker would, and releases it after a while
+    const worker = new Worker(
+      `
+        const { parentPort, workerData } = require('node:worker_threads');
+        const lock = new Int32Array(workerData, 0, 1);
+        Atomics.store(lock, 0, 1);
+        parentPort.postMessage('locked');
+        setTimeout(() => {
+          Atomics.store(lock, 0, 0);
+          Atomics.notify(lock, 0, 1);
+        }, 100);
+      `,
+      { eval: true, workerData: store.buffer }
+    );
+
+    try {
+      await new Promise((resolve) => worker.once('message', resolve));
+      const end = timeSpan();
+
+      expect(store.reserve({ weight: 1, now: 0, limit: 1, interval: 1000, strict: false })).toBe(0);
+      expect(inRange(end(), { start: 80, end: 1000 })).toBe(true);
+    } finally {
+      await worker.terminate();
+    }
+  });
+
+  it('throws when the lock cannot be acquired in time', () => {
+    const store = createSharedStore(undefined, { timeout: 20 });
+    Atomics.store(new Int32Array(store.buffer, 0, 1), 0, 1);
+
+    expect(() =>
+      store.reserve({ weight: 1, now: 0, limit: 1, interval: 1000, strict: false })
+    ).toThrow('Timed out waiting for the lock of the shared store');
+  });
+
+  it('validates the buffer and the options', async () => {
+    const clock = createVirtualClock();
+    const store = createSharedStore();
+
+    expect(() => createSharedStore(new SharedArrayBuffer(4))).toThrow(
+      'Expected `buffer` to be the `buffer` of a shared store'
+    );
+    expect(() => createSharedStore(undefined, { timeout: -1 })).toThrow(
+      'Expected `timeout` to be a finite number >= 0'
+    );
+    await expect(
+      throttle(() => {}, { limit: 1, interval: 1000, strict: true, store, clock })()
+    ).rejects.toThrow('The shared store does not support the `strict` option');
+    await expect(
+      throttle(() => {}, { limit: 1, interval: 1000, key: () => 'a', store, clock })()
+    ).rejects.toThrow('The shared store does not support the `key` option');
+  });
+});
+
+describe('createFileStore', () => {
+  let directory: string;
+  let path: string;
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'throttle-'));
+    path = join(directory, 'quota.json');
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('shares the quota between stores using the same file', async () => {
+    const clock = createVirtualClock();
+    const first = throttle(() => clock.now(), {
+      limit: 2,
+      interval: 1000,
+      store: createFileStore(path),
+      clock,
+    });
+    const second = throttle(() => clock.now(), {
+      limit: 2,
+      interval: 1000,
+      store: createFileStore(path),
+      clock,
+    });
+
+    const results = Promise.all([first(), second(), second(), first()]);
+    await clock.runAll();
+
+    expect(await results).toEqual([0, 0, 1000, 1000]);
+    expect(existsSync(`${path}.lock`)).toBe(false);
+  });
+
+  it('throws when the lock cannot be acquired in time', () => {
+    const store = createFileStore(path, { timeout: 20 });
+    writeFileSync(`${path}.lock`, '');
+
+    expect(() =>
+      store.reserve({ weight: 1, now: 0, limit: 1, interval: 1000, strict: false })
+    ).toThrow('Timed out waiting for the lock');
+  });
+
+  it('removes a stale lock', () => {
+    const store = createFileStore(path, { staleTime: 1000, timeout: 20 });
+    writeFileSync(`${path}.lock`, '');
+    const past = new Date(Date.now() - 2000);
+    utimesSync(`${path}.lock`, past, past);
+
+    expect(store.reserve({ weight: 1, now: 0, limit: 1, interval: 1000, strict: false })).toBe(0);
+    expect(store.reserve({ weight: 1, now: 0, limit: 1, interval: 1000, strict: false })).toBe(
+      1000
+    );
+  });
+
+  it('does not remove a lock that replaced the stale lock in the meantime', () => {
+    const store = createFileStore(path, { staleTime: 1000, timeout: 20 });
+    const lockPath = `${path}.lock`;
+    writeFileSync(lockPath, '');
+    const past = new Date(Date.now() - 2000);
+    utimesSync(lockPath, past, past);
+
+    // Another process takes over the stale lock right after this one found it stale
+    vi.mocked(statSync).mockImplementationOnce(((...args: Parameters<typeof statSync>) => {
+      const stats = statSync(...args);
+      rmSync(lockPath);
+      writeFileSync(lockPath, 'other');
+      return stats;
+    }) as typeof statSync);
+
+    expect(() =>
+      store.reserve({ weight: 1, now: 0, limit: 1, interval: 1000, strict: false })
+    ).toThrow('Timed out waiting for the lock');
+    expect(readFileSync(lockPath, 'utf8')).toBe('other');
+    expect(readdirSync(directory)).toEqual(['quota.json.lock']);
+  });
+
+  it('only releases its own lock', () => {
+    const store = createFileStore(path);
+    const lockPath = `${path}.lock`;
+
+    // Reading the key happens while holding the lock, which another process takes over as stale in the meantime
+    const takeOverLock = { weight: 1, now: 0, limit: 1, interval: 1000, strict: false };
+    Object.defineProperty(takeOverLock, 'key', {
+      get: () => {
+        writeFileSync(lockPath, 'other');
+        return undefined;
+      },
+    });
+    expect(store.reserve(takeOverLock)).toBe(0);
+    expect(readFileSync(lockPath, 'utf8')).toBe('other');
+
+    rmSync(lockPath);
+    const removeLock = { weight: 1, now: 0, limit: 1, interval: 1000, strict: false };
+    Object.defineProperty(removeLock, 'key', {
+      get: () => {
+        rmSync(lockPath);
+        return undefined;
+      },
+    });
+    expect(store.reserve(removeLock)).toBe(1000);
+    expect(existsSync(lockPath)).toBe(false);
+  });
 });
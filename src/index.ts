@@ -1,163 +1,596 @@
-import delay from '@se-oss/delay';
-import { Abort } from 'abort-signal';
+import { QueueFullError } from './errors';
+import { getLimiter, RateLimiter } from './limiter';
+import type {
+  AnyFunction,
+  CallOptions,
+  Options,
+  ThrottledFunction,
+  ThrottleEvents,
+} from './typings';
+import { createDeduper } from './utils/dedupe';
+import { getUsage } from './utils/delay';
+import type { Reconcile } from './utils/delay';
+import { createEmitter } from './utils/events';
+import { createLimiter, isPromiseLike } from './utils/limiter';
+import type { Lane } from './utils/limiter';
+import { limiterOptionNames, mergeConfiguration, validateOptions } from './utils/options';
+import { getRetryDelay, shouldRetry } from './utils/retry';
 
-import type { AnyFunction, Options, ThrottledFunction } from './typings';
-import { createDelayCalculator, updateTickRecord } from './utils/delay';
-import { createThrottleState } from './utils/state';
+interface Throttle {
+  /**
+   * Throttle promise-returning and async functions.
+   *
+   * It rate-limits function calls without discarding them, making it ideal for external API interactions where avoiding call loss is crucial.
+   *
+   * @param function_ - The function to be throttled.
+   * @param options - The options for throttling.
+   * @returns A throttled function.
+   */
+  <F extends AnyFunction>(function_: F, options?: Partial<Options>): ThrottledFunction<F>;
 
-const validateOptions = (options: Options): void => {
-  if (!Number.isFinite(options.limit)) {
-    throw new TypeError('Expected `limit` to be a finite number');
-  }
+  /**
+   * Create a throttle whose functions all share one queue and set of limits.
+   *
+   * @param options - The options for throttling.
+   * @returns A function that throttles functions with the shared limits.
+   */
+  (options: Partial<Options>): <F extends AnyFunction>(function_: F) => ThrottledFunction<F>;
+}
 
-  if (!Number.isFinite(options.interval)) {
-    throw new TypeError('Expected `interval` to be a finite number');
-  }
+const throttleFunction = <F extends AnyFunction>(
+  function_: F,
+  options: Partial<Options> = {}
+): ThrottledFunction<F> => {
+  const { limiter: sharedLimiter, ...functionOptions } = options;
+  if (sharedLimiter !== undefined) {
+    if (!(sharedLimiter instanceof RateLimiter)) {
+      throw new TypeError('Expected `limiter` to be a `RateLimiter`');
+    }
 
-  if (options.limit < 0) {
-    throw new TypeError('Expected `limit` to be >= 0');
+    for (const name of limiterOptionNames) {
+      if (functionOptions[name] !== undefined) {
+        throw new TypeError(`The \`limiter\` option cannot be used with \`${name}\``);
+      }
+    }
   }
 
-  if (options.interval < 0) {
-    throw new TypeError('Expected `interval` to be >= 0');
-  }
+  const limiter = sharedLimiter ? getLimiter(sharedLimiter) : createLimiter(functionOptions);
+  // The options of the limiter are the defaults for the options of the function
+  let ownOptions: Partial<Options> = sharedLimiter ? functionOptions : {};
+  let resolvedOptions: Options = { ...limiter.options, ...ownOptions };
+  validateOptions(resolvedOptions);
 
-  if (options.weight !== undefined && typeof options.weight !== 'function') {
-    throw new TypeError('Expected `weight` to be a function');
-  }
+  const { clock } = limiter;
+  const retryOptions = resolvedOptions.retry;
 
-  if (options.weight && options.interval === 0) {
-    throw new TypeError('The `weight` option cannot be used with `interval` of 0');
-  }
-};
+  const emitter = createEmitter<ThrottleEvents<F>>();
+  const totals = {
+    enqueued: 0,
+    delayed: 0,
+    started: 0,
+    fulfilled: 0,
+    rejected: 0,
+    dropped: 0,
+    aborted: 0,
+  };
+  let totalWait = 0;
+  let maxWait = 0;
+  const recentStarts: number[] = [];
 
-const defaultOptions: Options = {
-  limit: 0,
-  interval: 0,
-  strict: false,
-};
+  const pruneRecentStarts = (now: number) => {
+    while (recentStarts.length > 0 && now - recentStarts[0]! >= 1000) {
+      recentStarts.shift();
+    }
+  };
 
-/**
- * Throttle promise-returning and async functions.
- *
- * It rate-limits function calls without discarding them, making it ideal for external API interactions where avoiding call loss is crucial.
- *
- * @param function_ - The function to be throttled.
- * @param options - The options for throttling.
- * @returns A throttled function.
- */
-export const throttle = <F extends AnyFunction>(
-  function_: F,
-  options?: Partial<Options>
-): ThrottledFunction<F> => {
-  const resolvedOptions: Options = { ...defaultOptions, ...options };
-  validateOptions(resolvedOptions);
+  const notifyDrop = (args: readonly unknown[], key: string | undefined) => {
+    totals.dropped++;
+    emitter.emit('drop', { args: args as Parameters<F>, key });
 
-  if (resolvedOptions.signal) {
-    resolvedOptions.signal.throwIfAborted();
-  }
+    try {
+      resolvedOptions.onDrop?.(...args);
+      // eslint-disable-next-line no-empty
+    } catch {} // Ignore onDrop errors
+  };
 
-  const state = createThrottleState();
-  const getDelay = createDelayCalculator(state, resolvedOptions);
+  const notifyAbort = (args: readonly unknown[], key: string | undefined, reason: unknown) => {
+    totals.aborted++;
+    emitter.emit('abort', { args: args as Parameters<F>, key, reason });
+  };
 
-  const throttled = function (
-    this: ThisParameterType<F>,
-    ...args: Parameters<F>
-  ): Promise<Awaited<ReturnType<F>>> {
-    if (!throttled.isEnabled) {
-      return (async () => function_.apply(this, args))() as Promise<Awaited<ReturnType<F>>>;
+  const getRequestWeight = (args: readonly unknown[]): number | Promise<number> => {
+    if (!resolvedOptions.weight) {
+      return 1;
+    }
+
+    const requestWeight = resolvedOptions.weight(...args);
+    return isPromiseLike(requestWeight)
+      ? Promise.resolve(requestWeight).then(limiter.checkWeight)
+      : limiter.checkWeight(requestWeight);
+  };
+
+  const getCallKey = (args: readonly unknown[]): string | undefined => {
+    if (!resolvedOptions.key) {
+      return undefined;
+    }
+
+    const key = resolvedOptions.key(...args);
+    if (typeof key !== 'string') {
+      throw new TypeError('Expected `key` to return a string');
     }
 
+    return key;
+  };
+
+  const getCallPriority = (args: readonly unknown[], callOptions: CallOptions): number => {
+    let priority = callOptions.priority ?? 0;
+    if (callOptions.priority === undefined && resolvedOptions.priority) {
+      priority = resolvedOptions.priority(...args);
+    }
+
+    if (!Number.isFinite(priority)) {
+      throw new TypeError('Expected `priority` to be a finite number');
+    }
+
+    return priority;
+  };
+
+  const enqueue = (
+    thisArg: ThisParameterType<F>,
+    args: Parameters<F>,
+    callOptions: CallOptions,
+    isImmediate = false
+  ): Promise<Awaited<ReturnType<F>>> => {
+    const { signal } = callOptions;
+
     return new Promise((resolve, reject) => {
-      let requestWeight = 1;
-      if (resolvedOptions.weight) {
+      let key: string | undefined;
+      let priority: number;
+      let weight: number | Promise<number>;
+      try {
+        key = getCallKey(args);
+        priority = getCallPriority(args, callOptions);
+        weight = getRequestWeight(args);
+      } catch (error) {
+        reject(error);
+        return;
+      }
+
+      // The lane is only picked once the weight is known, so an idle key cannot be evicted in between
+      let lane: Lane;
+      let requestWeight = 0;
+
+      const retry = (error: unknown, attempt: number) => {
+        const waitTime = getRetryDelay(retryOptions!, attempt);
+
         try {
-          requestWeight = resolvedOptions.weight(...args);
-        } catch (error) {
-          reject(error);
-          return;
-        }
+          resolvedOptions.onRetry?.(error, attempt, ...args);
+          // eslint-disable-next-line no-empty
+        } catch {} // Ignore onRetry errors
 
-        if (!Number.isFinite(requestWeight) || requestWeight < 0) {
-          reject(new TypeError('Expected `weight` to be a finite non-negative number'));
-          return;
-        }
+        limiter.sleep(waitTime, signal).then(
+          () => {
+            limiter.pendingCount--;
+            schedule(attempt + 1);
+          },
+          (reason: unknown) => {
+            limiter.pendingCount--;
+            reject(reason);
+            limiter.notifyWaiters();
+          }
+        );
+      };
 
-        if (requestWeight > resolvedOptions.limit) {
-          reject(
-            new TypeError(
-              `Expected \`weight\` (${requestWeight}) to be <= \`limit\` (${resolvedOptions.limit})`
-            )
-          );
-          return;
+      const execute = (
+        attempt: number,
+        enqueuedAt: number,
+        reconcile: Reconcile,
+        batchResult?: Promise<unknown>
+      ) => {
+        // A batch counts as a single active call, which is tracked by the limiter
+        if (!batchResult) {
+          lane.state.activeCount++;
         }
-      }
 
-      const delayResult = getDelay(requestWeight);
-      const waitTime = typeof delayResult === 'number' ? delayResult : delayResult.delay;
-      const tickRecord = typeof delayResult === 'object' ? delayResult.tickRecord : undefined;
+        const startedAt = clock.now();
+        const wait = startedAt - enqueuedAt;
+        totals.started++;
+        totalWait += wait;
+        maxWait = Math.max(maxWait, wait);
+        pruneRecentStarts(startedAt);
+        recentStarts.push(startedAt);
+        emitter.emit('start', { args, key, weight: requestWeight, attempt, wait });
 
-      const execute = (actualTime?: number) => {
-        if (tickRecord) {
-          updateTickRecord(state, tickRecord, !!resolvedOptions.weight, actualTime);
+        let result: Promise<unknown>;
+        if (batchResult) {
+          result = batchResult;
+        } else {
+          try {
+            result = Promise.resolve(function_.apply(thisArg, args));
+          } catch (error) {
+            result = Promise.reject(error);
+          }
         }
 
-        try {
-          resolve(function_.apply(this, args) as Awaited<ReturnType<F>>);
-        } catch (error) {
-          reject(error);
-        }
+        const release = (outcome: PromiseSettledResult<unknown>) => {
+          if (resolvedOptions.actualWeight) {
+            try {
+              const actualWeight = resolvedOptions.actualWeight(outcome, ...args);
+              if (
+                typeof actualWeight === 'number' &&
+                Number.isFinite(actualWeight) &&
+                actualWeight >= 0
+              ) {
+                reconcile(actualWeight, clock.now());
+              }
+              // eslint-disable-next-line no-empty
+            } catch {} // Ignore actualWeight errors
+          }
+
+          if (resolvedOptions.inspect) {
+            try {
+              const feedback = resolvedOptions.inspect(outcome, ...args);
+              if (feedback) {
+                limiter.applyFeedback(lane, feedback);
+              }
+              // eslint-disable-next-line no-empty
+            } catch {} // Ignore inspect errors
+          }
+
+          if (!batchResult) {
+            lane.state.activeCount--;
+          }
+
+          if (key !== undefined) {
+            limiter.touch(key);
+          }
+
+          totals[outcome.status]++;
+          emitter.emit('settle', {
+            args,
+            key,
+            weight: requestWeight,
+            attempt,
+            duration: clock.now() - startedAt,
+            result: outcome as PromiseSettledResult<Awaited<ReturnType<F>>>,
+          });
+
+          lane.dispatch();
+        };
+
+        result.then(
+          (value) => {
+            release({ status: 'fulfilled', value });
+            resolve(value as Awaited<ReturnType<F>>);
+          },
+          (error: unknown) => {
+            // The retry is counted before releasing, so the throttled function does not appear idle in between
+            const isRetrying =
+              shouldRetry(retryOptions, error, attempt) &&
+              !signal?.aborted &&
+              !limiter.options.signal?.aborted;
+            if (isRetrying) {
+              limiter.pendingCount++;
+            }
+
+            release({ status: 'rejected', reason: error });
+
+            if (isRetrying) {
+              retry(error, attempt);
+            } else {
+              reject(error);
+            }
+          }
+        );
       };
 
-      if (waitTime > 0) {
-        try {
-          resolvedOptions.onDelay?.(...args);
-          // eslint-disable-next-line no-empty
-        } catch {} // Ignore onDelay errors
+      const schedule = (attempt: number) => {
+        const isRetry = attempt > 1;
+        const { overflow = 'reject' } = resolvedOptions;
+        // Picked again for a retry, since an idle key may have been evicted during its backoff
+        lane = limiter.getLane(key);
 
-        const delayPromise = delay(waitTime, {
-          signal: resolvedOptions.signal,
-          stats: true,
+        limiter.schedule(lane, {
+          args,
+          key,
+          weight: requestWeight,
+          priority,
+          batch: resolvedOptions.batch,
+          signal,
+          deadline: callOptions.deadline,
+          overflow:
+            typeof overflow === 'function'
+              ? () => {
+                  notifyDrop(args, key);
+                  try {
+                    resolve(overflow.apply(thisArg, args) as Awaited<ReturnType<F>>);
+                  } catch (error) {
+                    reject(error);
+                  }
+                }
+              : overflow,
+          isRetry,
+          isAhead: isRetry && retryOptions?.prioritize === true,
+          isImmediate: isImmediate && !isRetry,
+          onEnqueue: (delay, isQueued) => {
+            if (isQueued && !isRetry) {
+              try {
+                resolvedOptions.onDelay?.(...args);
+                // eslint-disable-next-line no-empty
+              } catch {} // Ignore onDelay errors
+            }
+
+            totals.enqueued++;
+            emitter.emit('enqueue', {
+              args,
+              key,
+              weight: requestWeight,
+              attempt,
+              priority,
+              delay,
+            });
+
+            if (isQueued) {
+              totals.delayed++;
+            }
+          },
+          start: (reconcile, enqueuedAt, batchResult) =>
+            execute(attempt, enqueuedAt, reconcile, batchResult),
+          reject,
+          drop: () => {
+            notifyDrop(args, key);
+            reject(new QueueFullError());
+          },
+          abort: (reason) => {
+            notifyAbort(args, key, reason);
+            reject(reason);
+          },
+          reweigh: () => getRequestWeight(args),
         });
+      };
 
-        state.queue.set(delayPromise, reject);
+      const start = (resolvedWeight: number) => {
+        requestWeight = resolvedWeight;
+        schedule(1);
+      };
 
-        delayPromise
-          .then(() => {
-            state.queue.delete(delayPromise);
-            execute(Date.now());
-          })
-          .catch((error) => {
-            state.queue.delete(delayPromise);
-            reject(error);
-          });
-      } else {
-        execute();
+      if (typeof weight === 'number') {
+        start(weight);
+        return;
       }
+
+      limiter.pendingCount++;
+      weight.then(
+        (resolvedWeight) => {
+          limiter.pendingCount--;
+          if (signal?.aborted) {
+            reject(signal.reason);
+            limiter.notifyWaiters();
+          } else {
+            start(resolvedWeight);
+          }
+        },
+        (error: unknown) => {
+          limiter.pendingCount--;
+          reject(error);
+          limiter.notifyWaiters();
+        }
+      );
+    });
+  };
+
+  const dedupeOptions = typeof resolvedOptions.dedupe === 'object' ? resolvedOptions.dedupe : {};
+  const dedupe = createDeduper<Awaited<ReturnType<F>>>(dedupeOptions.ttl ?? 0, () => clock.now());
+
+  const invoke = (
+    thisArg: ThisParameterType<F>,
+    args: Parameters<F>,
+    callOptions: CallOptions = {},
+    isImmediate = false
+  ): Promise<Awaited<ReturnType<F>>> => {
+    const { signal } = callOptions;
+    if (signal?.aborted) {
+      return Promise.reject(signal.reason);
+    }
+
+    if (callOptions.deadline !== undefined && !Number.isFinite(callOptions.deadline)) {
+      return Promise.reject(new TypeError('Expected `deadline` to be a finite number'));
+    }
+
+    if (!throttled.isEnabled) {
+      return (async () => function_.apply(thisArg, args))() as Promise<Awaited<ReturnType<F>>>;
+    }
+
+    // Sharing a pending call would not start it immediately
+    if (!resolvedOptions.dedupe || isImmediate) {
+      return enqueue(thisArg, args, callOptions, isImmediate);
+    }
+
+    let dedupeKey: string;
+    try {
+      dedupeKey = dedupeOptions.key ? dedupeOptions.key(...args) : JSON.stringify(args);
+    } catch (error) {
+      return Promise.reject(error);
+    }
+
+    if (typeof dedupeKey !== 'string') {
+      return Promise.reject(new TypeError('Expected `dedupe.key` to return a string'));
+    }
+
+    return dedupe(dedupeKey, signal, (sharedSignal) =>
+      enqueue(thisArg, args, { ...callOptions, signal: sharedSignal })
+    );
+  };
+
+  const throttled = function (this: ThisParameterType<F>, ...args: Parameters<F>) {
+    return invoke(this, args);
+  } as ThrottledFunction<F>;
+
+  throttled.withOptions = (callOptions) =>
+    function (this: ThisParameterType<F>, ...args: Parameters<F>) {
+      return invoke(this, args, callOptions);
+    };
+
+  throttled.tryCall = function (this: ThisParameterType<F>, ...args: Parameters<F>) {
+    return invoke(this, args, {}, true);
+  };
+
+  throttled.estimateDelay = (...args) => {
+    if (!throttled.isEnabled) {
+      return 0;
+    }
+
+    const key = getCallKey(args);
+    const priority = getCallPriority(args, {});
+    const requestWeight = getRequestWeight(args);
+    if (typeof requestWeight !== 'number') {
+      requestWeight.catch(() => {});
+      throw new TypeError('Expected `weight` to return a number to estimate the delay');
+    }
+
+    if (limiter.isPaused) {
+      return Number.POSITIVE_INFINITY;
+    }
+
+    return limiter.estimateDelay(limiter.peekLane(key), requestWeight, priority);
+  };
+
+  throttled.penalize = limiter.penalize;
+
+  throttled.syncQuota = limiter.syncQuota;
+
+  throttled.configure = (configuration) => {
+    const { weight, ...limiterConfiguration } = configuration;
+    const nextOwnOptions = 'weight' in configuration ? { ...ownOptions, weight } : ownOptions;
+    validateOptions({
+      ...mergeConfiguration(limiter.options, limiterConfiguration),
+      ...nextOwnOptions,
     });
-  } as ThrottledFunction<AnyFunction>;
+
+    // Queued calls are weighed again by the limiter, so the weight is updated first
+    ownOptions = nextOwnOptions;
+    resolvedOptions = { ...limiter.options, ...ownOptions };
+    limiter.configure(limiterConfiguration);
+    resolvedOptions = { ...limiter.options, ...ownOptions };
+  };
+
+  throttled.pause = limiter.pause;
+
+  throttled.resume = limiter.resume;
+
+  throttled.onEmpty = limiter.onEmpty;
+
+  throttled.onIdle = limiter.onIdle;
+
+  throttled.drain = limiter.drain;
+
+  throttled.on = emitter.on;
+
+  throttled.off = emitter.off;
+
+  throttled.stats = (key) => {
+    const now = clock.now();
+    let lanes = limiter.getLanes();
+    if (key !== undefined) {
+      const lane = limiter.peekLane(key);
+      lanes = lane ? [lane] : [];
+    }
+
+    pruneRecentStarts(now);
+
+    return {
+      queueSize: lanes.reduce((total, { state }) => total + state.queue.length, 0),
+      activeCount: lanes.reduce((total, { state }) => total + state.activeCount, 0),
+      totals: { ...totals },
+      usage: limiter.ruleOptions.map((rule, index) => ({
+        limit: rule.limit,
+        interval: rule.interval,
+        used: lanes.reduce(
+          (used, { ruleStates }) => Math.max(used, getUsage(ruleStates[index]!, rule, now)),
+          0
+        ),
+      })),
+      wait: {
+        average: totals.started > 0 ? totalWait / totals.started : 0,
+        max: maxWait,
+      },
+      throughput: recentStarts.length,
+    };
+  };
 
   throttled.isEnabled = true;
 
+  throttled.queueSizeFor = (key) => limiter.peekLane(key)?.state.queue.length ?? 0;
+
+  throttled.keys = limiter.keys;
+  throttled.snapshot = limiter.snapshot;
+
   Object.defineProperty(throttled, 'queueSize', {
-    get: () => state.queue.size,
+    get: () => limiter.getLanes().reduce((total, { state }) => total + state.queue.length, 0),
   });
 
-  if (resolvedOptions.signal) {
-    Abort.manageLifecycle({
-      signal: resolvedOptions.signal,
-      target: throttled,
-      onAbort: () => {
-        state.queue.clear();
-        state.strictTicks.length = 0;
-        state.currentTick = 0;
-        state.activeWeight = 0;
-      },
-    });
-  }
+  Object.defineProperty(throttled, 'isPaused', {
+    get: () => limiter.isPaused,
+  });
 
-  return throttled as ThrottledFunction<F>;
+  Object.defineProperty(throttled, 'activeCount', {
+    get: () => limiter.getLanes().reduce((total, { state }) => total + state.activeCount, 0),
+  });
+
+  return throttled;
 };
 
-export type { AnyFunction, Options, ThrottledFunction } from './typings';
+/**
+ * Throttle promise-returning and async functions.
+ *
+ * It rate-limits function calls without discarding them, making it ideal for external API interactions where avoiding call loss is crucial.
+ * When called with only options, it returns a function that throttles functions with one shared queue and set of limits.
+ *
+ * @param function_ - The function to be throttled.
+ * @param options - The options for throttling.
+ * @returns A throttled function.
+ */
+export const throttle = ((
+  functionOrOptions: AnyFunction | Partial<Options>,
+  options?: Partial<Options>
+) => {
+  if (typeof functionOrOptions === 'function') {
+    return throttleFunction(functionOrOptions, options);
+  }
+
+  const limiter = new RateLimiter(functionOrOptions);
+  return (function_: AnyFunction) => throttleFunction(function_, { limiter });
+}) as Throttle;
+
+export { createVirtualClock } from './clock';
+export { QueueFullError, WaitTimeoutError } from './errors';
+export { createThrottleStream, throttleIterable } from './iterable';
+export { RateLimiter } from './limiter';
+export { createSharedStore } from './shared-store';
+export { createMemoryStore } from './store';
+export type {
+  AcquireOptions,
+  AnyFunction,
+  BatchOptions,
+  CallOptions,
+  Clock,
+  DedupeOptions,
+  DrainOptions,
+  GcraOptions,
+  LimitRule,
+  Options,
+  OverflowStrategy,
+  RateLimitFeedback,
+  RetryOptions,
+  SharedStore,
+  SharedStoreOptions,
+  StoreRequest,
+  ThrottledFunction,
+  ThrottleEvents,
+  ThrottleSnapshot,
+  ThrottleStats,
+  ThrottleStore,
+  TokenBucketOptions,
+  VirtualClock,
+} from './typings';
 export default throttle;
@@ -0,0 +1,87 @@
+import { throttle } from './index';
+import { getLimiter } from './limiter';
+import type { Options } from './typings';
+
+/**
+ * Pass items through a throttled identity function, so each item counts towards the limits like a call.
+ */
+const createItemGate = <T>(options: Partial<Options>) => {
+  const throttled = throttle((item: T) => item, options);
+  const signal = options.limiter ? getLimiter(options.limiter).options.signal : options.signal;
+
+  return async (item: T): Promise<T> => {
+    // An aborted limiter would otherwise keep letting items through that fit the limits
+    signal?.throwIfAborted();
+    return throttled(item);
+  };
+};
+
+/**
+ * Iterate over the items of an iterable at the throttled rate.
+ *
+ * Items are only pulled from the source once the previous one was let through, so a slow consumer holds back the
+ * source. The `weight`, `priority` and `key` options receive the item.
+ *
+ * @example
+ * ```
+ * import {throttleIterable} from '@se-oss/throttle';
+ *
+ * // At most 1 MB per second
+ * const chunks = throttleIterable(createReadStream('export.csv'), {
+ * 	limit: 1_000_000,
+ * 	interval: 1000,
+ * 	weight: chunk => chunk.length
+ * });
+ *
+ * for await (const chunk of chunks) {
+ * 	await upload(chunk);
+ * }
+ * ```
+ *
+ * @param iterable - The items to throttle.
+ * @param options - The options for throttling.
+ * @returns An async iterable of the same items.
+ */
+export const throttleIterable = <T>(
+  iterable: AsyncIterable<T> | Iterable<T>,
+  options: Partial<Options>
+): AsyncGenerator<T, void, undefined> => {
+  const pass = createItemGate<T>(options);
+
+  return (async function* () {
+    for await (const item of iterable) {
+      yield await pass(item);
+    }
+  })();
+};
+
+/**
+ * Create a `TransformStream` that emits its chunks at the throttled rate, holding back the writable side while waiting.
+ *
+ * The `weight`, `priority` and `key` options receive the chunk. In Node.js, convert it with
+ * `Duplex.fromWeb(stream, {objectMode: true})` to use it as a `Transform` stream.
+ *
+ * @example
+ * ```
+ * import {createThrottleStream} from '@se-oss/throttle';
+ *
+ * const response = await fetch('https://example.com/export.csv');
+ *
+ * // At most 1 MB per second
+ * const body = response.body.pipeThrough(
+ * 	createThrottleStream({limit: 1_000_000, interval: 1000, weight: chunk => chunk.byteLength})
+ * );
+ * ```
+ *
+ * @param options - The options for throttling.
+ * @returns A stream that passes its chunks through unchanged.
+ */
+export const createThrottleStream = <T>(options: Partial<Options>): TransformStream<T, T> => {
+  const pass = createItemGate<T>(options);
+
+  return new TransformStream({
+    transform: async (chunk, controller) => {
+      controller.enqueue(await pass(chunk));
+    },
+  });
+};
@@ -0,0 +1,161 @@
+import { QueueFullError } from './errors';
+import type { AcquireOptions, Options, RateLimitFeedback, ThrottleSnapshot } from './typings';
+import { createLimiter } from './utils/limiter';
+import type { Limiter } from './utils/limiter';
+
+const limiters = new WeakMap<RateLimiter, Limiter>();
+
+/**
+ * Get the queues and throttling state behind a rate limiter.
+ */
+export const getLimiter = (rateLimiter: RateLimiter): Limiter => limiters.get(rateLimiter)!;
+
+/**
+ * A set of limits that is not tied to a single function, for gating anything that draws from one quota, such as socket
+ * writes, stream chunks or several API methods.
+ *
+ * Pass it as the `limiter` option to let several throttled functions share its queue and limits.
+ *
+ * @example
+ * ```
+ * import Throttle, {RateLimiter} from '@se-oss/throttle';
+ *
+ * const limiter = new RateLimiter({limit: 10, interval: 1000});
+ *
+ * const getUser = Throttle(id => fetch(`https://api.example.com/users/${id}`), {limiter});
+ * const getPost = Throttle(id => fetch(`https://api.example.com/posts/${id}`), {limiter});
+ *
+ * for await (const chunk of stream) {
+ * 	await limiter.acquire(chunk.length);
+ * 	socket.write(chunk);
+ * }
+ * ```
+ */
+export class RateLimiter {
+  /**
+   * @param options - The options for throttling. Options that describe calls, such as `weight`, `key` and `retry`,
+   * are used as defaults by the throttled functions sharing the limiter.
+   */
+  constructor(options: Partial<Options> = {}) {
+    limiters.set(this, createLimiter(options));
+  }
+
+  /**
+   * The number of acquisitions and calls waiting in the queue.
+   */
+  get queueSize(): number {
+    return getLimiter(this)
+      .getLanes()
+      .reduce((total, { state }) => total + state.queue.length, 0);
+  }
+
+  /**
+   * Whether dispatching is paused through `pause()`.
+   */
+  get isPaused(): boolean {
+    return getLimiter(this).isPaused;
+  }
+
+  /**
+   * Wait until `weight` fits the limits, and count it towards them.
+   *
+   * Acquisitions are queued together with the calls of the throttled functions sharing the limiter. It rejects with
+   * `signal.reason` when the signal is aborted while queued, and with a `QueueFullError` when the queue is full,
+   * unless `overflow` is `'drop-oldest'`. Unlike calls, acquisitions do not take up a `concurrency` slot.
+   *
+   * @param weight - The cost of the acquisition.
+   * @param options - The options for this acquisition.
+   */
+  acquire(weight = 1, options: AcquireOptions = {}): Promise<void> {
+    const limiter = getLimiter(this);
+    const { signal, priority = 0, deadline, key } = options;
+
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+      }
+
+      if (!Number.isFinite(priority)) {
+        reject(new TypeError('Expected `priority` to be a finite number'));
+        return;
+      }
+
+      if (deadline !== undefined && !Number.isFinite(deadline)) {
+        reject(new TypeError('Expected `deadline` to be a finite number'));
+        return;
+      }
+
+      try {
+        limiter.checkWeight(weight);
+      } catch (error) {
+        reject(error);
+        return;
+      }
+
+      limiter.schedule(limiter.getLane(key), {
+        args: [],
+        key,
+        weight,
+        priority,
+        signal,
+        deadline,
+        overflow: limiter.options.overflow === 'drop-oldest' ? 'drop-oldest' : 'reject',
+        onEnqueue: () => {},
+        start: () => resolve(),
+        reject,
+        drop: () => reject(new QueueFullError()),
+        abort: reject,
+        reweigh: () => limiter.checkWeight(weight),
+      });
+    });
+  }
+
+  /**
+   * Count `weight` towards the limits only if it fits right away.
+   *
+   * @param weight - The cost of the acquisition.
+   * @param options - The key of the acquisition, when the limits apply per key.
+   * @returns Whether the weight was acquired.
+   */
+  tryAcquire(weight = 1, options: Pick<AcquireOptions, 'key'> = {}): boolean {
+    const limiter = getLimiter(this);
+    limiter.checkWeight(weight);
+    return limiter.tryStart(limiter.getLane(options.key), weight) !== undefined;
+  }
+
+  /**
+   * Capture the usage recorded so far, to restore it with the `initialState` option after a restart.
+   */
+  snapshot(): ThrottleSnapshot {
+    return getLimiter(this).snapshot();
+  }
+
+  /**
+   * Hold back everything for `milliseconds`, e.g. after the remote side answered with `429 Too Many Requests`.
+   */
+  penalize(milliseconds: number, key?: string): void {
+    getLimiter(this).penalize(milliseconds, key);
+  }
+
+  /**
+   * Align the limits with the quota reported by the remote side.
+   */
+  syncQuota(quota: Required<Pick<RateLimitFeedback, 'remaining' | 'resetAt'>>, key?: string): void {
+    getLimiter(this).syncQuota(quota, key);
+  }
+
+  /**
+   * Stop granting acquisitions and dispatching calls until `resume()` is called.
+   */
+  pause(): void {
+    getLimiter(this).pause();
+  }
+
+  /**
+   * Continue granting acquisitions and dispatching calls after `pause()`.
+   */
+  resume(): void {
+    getLimiter(this).resume();
+  }
+}
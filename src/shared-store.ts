@@ -0,0 +1,115 @@
+import type { SharedStore, SharedStoreOptions } from './typings';
+import { createThrottleState } from './utils/state';
+import { reserveInState } from './utils/store';
+
+// An `Int32Array` lock followed by a `Float64Array` with the fields of the throttling state
+const LOCK_BYTES = 8;
+const CURRENT_TICK = 0;
+const ACTIVE_WEIGHT = 1;
+const THEORETICAL_ARRIVAL = 2;
+const BUFFER_BYTES = LOCK_BYTES + 3 * Float64Array.BYTES_PER_ELEMENT;
+
+const UNLOCKED = 0;
+const LOCKED = 1;
+
+/**
+ * Create a store that keeps the throttling state in a `SharedArrayBuffer`, so threads such as `worker_threads` draw
+ * from one quota without a coordinating thread.
+ *
+ * Reservations are guarded by a lock updated with `Atomics`, which is only held while the state is read and written.
+ * Threads waiting for it are blocked with `Atomics.wait()` until it is released, or spin where blocking is not allowed,
+ * like on the main thread of browsers.
+ * The windowed algorithm and `gcra` are supported, but not `strict` and the `key` option.
+ *
+ * @example
+ * ```
+ * import {Worker, isMainThread, workerData} from 'node:worker_threads';
+ * import Throttle, {createSharedStore} from '@se-oss/throttle';
+ *
+ * if (isMainThread) {
+ * 	const store = createSharedStore();
+ * 	for (let index = 0; index < 4; index++) {
+ * 		new Worker(new URL(import.meta.url), {workerData: store.buffer});
+ * 	}
+ * } else {
+ * 	// The workers share 10 calls per second
+ * 	const throttled = Throttle(fetchUser, {
+ * 		limit: 10,
+ * 		interval: 1000,
+ * 		store: createSharedStore(workerData)
+ * 	});
+ * }
+ * ```
+ *
+ * @param buffer - The `buffer` of another shared store, to draw from its quota. A new state is created when omitted.
+ * @param options - The options for locking the state.
+ * @returns A store to pass as the `store` option.
+ */
+export const createSharedStore = (
+  buffer: SharedArrayBuffer = new SharedArrayBuffer(BUFFER_BYTES),
+  options: SharedStoreOptions = {}
+): SharedStore => {
+  const { timeout = 5000 } = options;
+
+  if (!(buffer instanceof SharedArrayBuffer) || buffer.byteLength !== BUFFER_BYTES) {
+    throw new TypeError('Expected `buffer` to be the `buffer` of a shared store');
+  }
+
+  if (!Number.isFinite(timeout) || timeout < 0) {
+    throw new TypeError('Expected `timeout` to be a finite number >= 0');
+  }
+
+  const lock = new Int32Array(buffer, 0, 1);
+  const fields = new Float64Array(buffer, LOCK_BYTES);
+
+  const acquire = () => {
+    const start = Date.now();
+    while (Atomics.compareExchange(lock, 0, UNLOCKED, LOCKED) !== UNLOCKED) {
+      const remaining = timeout - (Date.now() - start);
+      if (remaining <= 0) {
+        throw new Error('Timed out waiting for the lock of the shared store');
+      }
+
+      try {
+        // Woken up by `release()` in the thread holding the lock
+        Atomics.wait(lock, 0, LOCKED, remaining);
+        // eslint-disable-next-line no-empty
+      } catch {} // Ignore the errors of threads that are not allowed to block, which spin instead
+    }
+  };
+
+  const release = () => {
+    Atomics.store(lock, 0, UNLOCKED);
+    Atomics.notify(lock, 0, 1);
+  };
+
+  return {
+    buffer,
+    reserve: (request) => {
+      if (request.key !== undefined) {
+        throw new TypeError('The shared store does not support the `key` option');
+      }
+
+      if (request.strict) {
+        throw new TypeError('The shared store does not support the `strict` option');
+      }
+
+      acquire();
+      try {
+        const state = createThrottleState();
+        state.currentTick = fields[CURRENT_TICK]!;
+        state.activeWeight = fields[ACTIVE_WEIGHT]!;
+        state.theoreticalArrival = fields[THEORETICAL_ARRIVAL]!;
+
+        const delay = reserveInState(state, request);
+
+        fields[CURRENT_TICK] = state.currentTick;
+        fields[ACTIVE_WEIGHT] = state.activeWeight;
+        fields[THEORETICAL_ARRIVAL] = state.theoreticalArrival;
+        return delay;
+      } finally {
+        release();
+      }
+    },
+  };
+};
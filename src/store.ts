@@ -0,0 +1,35 @@
+import type { ThrottleStore } from './typings';
+import { createThrottleState } from './utils/state';
+import type { ThrottleState } from './utils/state';
+import { isStateExpired, reserveInState } from './utils/store';
+
+/**
+ * Create a store that keeps the throttling state in memory, which is what throttled functions do without a store.
+ *
+ * Sharing it lets throttled functions with different options draw from one quota, and it is a reference for
+ * implementing stores backed by shared storage, such as Redis.
+ *
+ * @returns A store to pass as the `store` option.
+ */
+export const createMemoryStore = (): ThrottleStore => {
+  // States are kept in the order they were last used, so expired ones are found at the start
+  const states = new Map<string, ThrottleState>();
+
+  return {
+    reserve: (request) => {
+      const key = request.key ?? '';
+      const state = states.get(key) ?? createThrottleState();
+      states.delete(key);
+
+      for (const [otherKey, otherState] of states) {
+        if (!isStateExpired(otherState, request.now, request.interval)) {
+          break;
+        }
+        states.delete(otherKey);
+      }
+
+      states.set(key, state);
+      return reserveInState(state, request);
+    },
+  };
+};
@@ -1,3 +1,5 @@
+import type { RateLimiter } from './limiter';
+
 export type AnyFunction = (...arguments_: readonly any[]) => unknown;
 
 export type ThrottledFunction<F extends AnyFunction> = ((
@@ -14,6 +16,7 @@ export type ThrottledFunction<F extends AnyFunction> = ((
    * The number of queued items waiting to be executed.
    *
    * This can be useful for implementing queue management strategies, such as using a fallback when the queue is too full.
+   * To have the queue bounded for you, see the `maxQueueSize` option.
    *
    * @example
    * ```
@@ -34,120 +37,1216 @@ export type ThrottledFunction<F extends AnyFunction> = ((
    * ```
    */
   readonly queueSize: number;
-};
 
-export interface Options {
   /**
-   * The maximum number of calls within an `interval`.
+   * The number of calls that have started but whose returned promise has not settled yet.
    */
-  readonly limit: number;
+  readonly activeCount: number;
 
   /**
-   * The timespan for `limit` in milliseconds.
+   * Get the time in milliseconds a call with the given arguments would wait before it starts, without making the call.
+   *
+   * The estimate takes the limits, `weight`, `priority` and the calls queued ahead into account, but assumes running
+   * calls do not hold back the `concurrency` limit. It is `Infinity` while paused.
+   *
+   * @example
+   * ```
+   * import Throttle from '@se-oss/throttle';
+   *
+   * const throttle = Throttle({limit: 1, interval: 1000});
+   *
+   * const accurateData = throttle(() => fetch('https://accurate-api.example.com'));
+   * const roughData = () => fetch('https://rough-api.example.com');
+   *
+   * async function getData() {
+   * 	return accurateData.estimateDelay() > 2000 ? roughData() : accurateData();
+   * }
+   * ```
    */
-  readonly interval: number;
+  estimateDelay(...args: Parameters<F>): number;
 
   /**
-   * Use a strict, more resource-intensive, throttling algorithm.
-   * The default algorithm uses a windowed approach that will work correctly in most cases,
-   * limiting the total number of calls at the specified limit per interval window.
-   * The strict algorithm throttles each call individually, ensuring the limit is not exceeded for any interval.
+   * Call the function only if it can start right away, and reject with a `WaitTimeoutError` otherwise.
    *
-   * @default false
+   * A rejected attempt does not take a spot in the queue or count towards the limits.
    */
-  readonly strict?: boolean;
+  tryCall(...args: Parameters<F>): Promise<Awaited<ReturnType<F>>>;
 
   /**
-   * Abort pending executions. When aborted, all unresolved promises are rejected with `signal.reason`.
+   * The number of queued items waiting to be executed for the given key, when using the `key` option.
+   */
+  queueSizeFor(key: string): number;
+
+  /**
+   * Get the keys that currently have their own throttling state, when using the `key` option.
+   */
+  keys(): string[];
+
+  /**
+   * Capture the usage recorded so far, to restore it with the `initialState` option after a restart.
+   *
+   * The snapshot is a plain object that survives `JSON.stringify`. Queued calls are not part of it.
    *
    * @example
    * ```
    * import Throttle from '@se-oss/throttle';
    *
-   * const controller = new AbortController();
-   *
-   * const throttle = Throttle({
-   * 	limit: 2,
+   * const throttled = Throttle(fetchUser, {
+   * 	limit: 10,
    * 	interval: 1000,
-   * 	signal: controller.signal
+   * 	initialState: existsSync('quota.json') ? JSON.parse(readFileSync('quota.json', 'utf8')) : undefined
    * });
    *
-   * const throttled = throttle(() => {
-   * 	console.log('Executing...');
+   * process.on('SIGTERM', () => {
+   * 	writeFileSync('quota.json', JSON.stringify(throttled.snapshot()));
    * });
-   *
-   * await throttled();
-   * await throttled();
-   * controller.abort('aborted');
-   * await throttled();
-   * //=> Executing...
-   * //=> Executing...
-   * //=> Promise rejected with reason `aborted`
    * ```
    */
-  signal?: AbortSignal;
+  snapshot(): ThrottleSnapshot;
 
   /**
-   * Get notified when function calls are delayed due to exceeding the `limit` of allowed calls within the given `interval`.
+   * Hold back all calls for the given number of milliseconds, e.g. after the remote side responded with `429 Too Many Requests`
+   * and a `Retry-After` header. Queued calls are pushed back accordingly.
    *
-   * The delayed call arguments are passed to the `onDelay` callback. Can be useful for monitoring the throttling efficiency.
+   * When using the `key` option, pass a key to only penalize that key, or omit it to penalize every current key.
    *
    * @example
    * ```
    * import Throttle from '@se-oss/throttle';
    *
-   * const throttle = Throttle({
-   * 	limit: 2,
-   * 	interval: 1000,
-   * 	onDelay: (a, b) => {
-   * 		console.log(`Reached interval limit, call is delayed for ${a} ${b}`);
-   * 	},
+   * const throttle = Throttle({limit: 10, interval: 1000});
+   * const request = throttle(async url => {
+   * 	const response = await fetch(url);
+   * 	if (response.status === 429) {
+   * 		request.penalize(Number(response.headers.get('Retry-After')) * 1000);
+   * 	}
+   * 	return response;
    * });
+   * ```
+   */
+  penalize(milliseconds: number, key?: string): void;
+
+  /**
+   * Synchronize with the quota reported by the remote side, e.g. through `X-RateLimit-Remaining` and `X-RateLimit-Reset` headers.
    *
-   * const throttled = throttle((a, b) => {
-   * 	console.log(`Executing with ${a} ${b}...`);
-   * });
+   * Until `resetAt`, at most `remaining` more weight is allowed to run, in addition to the configured limits.
    *
-   * await throttled(1, 2);
-   * await throttled(3, 4);
-   * await throttled(5, 6);
-   * //=> Executing with 1 2...
-   * //=> Executing with 3 4...
-   * //=> Reached interval limit, call is delayed for 5 6
-   * //=> Executing with 5 6...
+   * When using the `key` option, pass a key to only update that key, or omit it to update every current key.
+   */
+  syncQuota(quota: { readonly remaining: number; readonly resetAt: number }, key?: string): void;
+
+  /**
+   * Change the limits of the throttled function at runtime, e.g. after the quota of the remote side was raised.
+   *
+   * The usage recorded so far is carried over to the new limits, and queued calls are weighed and scheduled again.
+   * Setting `limit` or `interval` replaces `limits` and the other way around, and enabling one of `strict`, `tokenBucket`
+   * and `gcra` disables the others.
+   *
+   * @example
+   * ```
+   * import Throttle from '@se-oss/throttle';
+   *
+   * const throttle = Throttle({limit: 10, interval: 1000});
+   * const request = throttle(url => fetch(url));
+   *
+   * // The tenant moved to a higher plan
+   * request.configure({limit: 100});
    * ```
    */
-  readonly onDelay?: (...arguments_: readonly any[]) => void;
+  configure(
+    configuration: Partial<
+      Pick<
+        Options,
+        | 'limit'
+        | 'interval'
+        | 'limits'
+        | 'strict'
+        | 'tokenBucket'
+        | 'gcra'
+        | 'weight'
+        | 'concurrency'
+      >
+    >
+  ): void;
 
   /**
-   * Calculate the weight/cost of each function call based on its arguments.
+   * Whether dispatching is paused through `pause()`.
+   */
+  readonly isPaused: boolean;
+
+  /**
+   * Stop dispatching calls. New calls are still accepted and queued calls keep their place, but nothing runs until `resume()`
+   * is called. Calls that have already started are not affected.
    *
-   * The weight determines how much of the `limit` is consumed by each call.
-   * This is useful for rate limiting APIs that use point-based or cost-based limits,
-   * where different operations consume different amounts of the quota.
+   * Unlike setting `isEnabled` to `false`, which bypasses throttling, this holds every call back.
    *
-   * By default, each call has a weight of `1`.
+   * @example
+   * ```
+   * import Throttle from '@se-oss/throttle';
+   *
+   * const throttle = Throttle({limit: 10, interval: 1000});
+   * const request = throttle(url => fetch(url));
+   *
+   * // The remote side is under maintenance
+   * request.pause();
+   * setTimeout(() => request.resume(), 60_000);
+   * ```
+   */
+  pause(): void;
+
+  /**
+   * Continue dispatching calls after `pause()`.
+   */
+  resume(): void;
+
+  /**
+   * Get a promise that resolves once the queue is empty. Calls that have already started may still be running.
+   */
+  onEmpty(): Promise<void>;
+
+  /**
+   * Get a promise that resolves once the queue is empty and all calls, including pending retries, have settled.
+   */
+  onIdle(): Promise<void>;
+
+  /**
+   * Wait for the queued and running calls to finish, e.g. before shutting down a worker.
+   *
+   * Resolves with `true` once idle, or with `false` if `timeout` elapsed first. Calls are not cancelled on timeout.
    *
    * @example
    * ```
    * import Throttle from '@se-oss/throttle';
    *
-   * // Storyblok GraphQL API: 100 points per second
-   * // Each query costs 1 point for the connection plus 1 point per table
-   * const throttle = Throttle({
-   * 	limit: 100,
-   * 	interval: 1000,
-   * 	weight: numberOfTables => 1 + numberOfTables
-   * });
+   * const throttle = Throttle({limit: 10, interval: 1000});
+   * const request = throttle(url => fetch(url));
    *
-   * const fetchData = throttle(numberOfTables => {
-   * 	// Fetch GraphQL data
-   * 	return fetch('...');
+   * process.on('SIGTERM', async () => {
+   * 	const isDrained = await request.drain({timeout: 10_000});
+   * 	process.exit(isDrained ? 0 : 1);
    * });
+   * ```
+   */
+  drain(options?: DrainOptions): Promise<boolean>;
+
+  /**
+   * Listen to the lifecycle of calls, returning a function that removes the listener again.
    *
-   * await fetchData(1); // Costs 2 points
-   * await fetchData(3); // Costs 4 points
+   * Errors thrown by listeners are ignored.
+   *
+   * @example
+   * ```
+   * import Throttle from '@se-oss/throttle';
+   *
+   * const throttle = Throttle({limit: 10, interval: 1000});
+   * const request = throttle(url => fetch(url));
+   *
+   * request.on('enqueue', ({delay}) => metrics.histogram('throttle.delay', delay));
+   * request.on('settle', ({duration, result}) => metrics.histogram(`throttle.${result.status}`, duration));
+   * ```
+   */
+  on<E extends keyof ThrottleEvents<F>>(
+    event: E,
+    listener: (event: ThrottleEvents<F>[E]) => void
+  ): () => void;
+
+  /**
+   * Remove a listener added with `on()`.
+   */
+  off<E extends keyof ThrottleEvents<F>>(
+    event: E,
+    listener: (event: ThrottleEvents<F>[E]) => void
+  ): void;
+
+  /**
+   * Get a snapshot of the throttling pressure, such as the queue size, the usage of the limits and the time calls waited.
+   *
+   * When using the `key` option, pass a key to get the usage of that key. Otherwise the usage of the busiest key is reported.
+   */
+  stats(key?: string): ThrottleStats;
+
+  /**
+   * Get a variant of the throttled function that applies the given options to its calls.
+   *
+   * Calls made through it share the queue and limits of the throttled function.
+   *
+   * @example
+   * ```
+   * import Throttle from '@se-oss/throttle';
+   *
+   * const throttle = Throttle({limit: 1, interval: 1000});
+   * const search = throttle(query => fetch(`https://api.example.com/search?q=${query}`));
+   *
+   * const controller = new AbortController();
+   * const result = search.withOptions({signal: controller.signal})('throttle');
+   *
+   * // The user typed something else, so the stale search is removed from the queue
+   * controller.abort();
+   * ```
+   */
+  withOptions(options: CallOptions): (...args: Parameters<F>) => Promise<Awaited<ReturnType<F>>>;
+};
+
+export interface CallOptions {
+  /**
+   * Cancel this call while it is queued. When aborted, the call is removed from the queue, its promise is rejected
+   * with `signal.reason`, and later calls move up. Calls that have already started are not affected.
+   */
+  readonly signal?: AbortSignal;
+
+  /**
+   * The priority of this call, overriding the `priority` option.
+   */
+  readonly priority?: number;
+
+  /**
+   * The time by which this call has to start, in milliseconds since the epoch as reported by the `clock`.
+   * Otherwise it is rejected with a `WaitTimeoutError`, like with `maxWait`.
+   */
+  readonly deadline?: number;
+}
+
+export interface AcquireOptions extends CallOptions {
+  /**
+   * The key whose throttling state to draw from, like the keys returned by the `key` option.
+   */
+  readonly key?: string;
+}
+
+interface ThrottleEvent<F extends AnyFunction> {
+  /**
+   * The arguments of the call.
+   */
+  readonly args: Parameters<F>;
+
+  /**
+   * The key of the call, when using the `key` option.
+   */
+  readonly key?: string;
+}
+
+interface ThrottleAttemptEvent<F extends AnyFunction> extends ThrottleEvent<F> {
+  /**
+   * The weight of the call.
+   */
+  readonly weight: number;
+
+  /**
+   * The attempt number, starting at 1 and increasing with each retry.
+   */
+  readonly attempt: number;
+}
+
+export interface ThrottleEvents<F extends AnyFunction = AnyFunction> {
+  /**
+   * A call was accepted, either starting right away or waiting in the queue.
+   */
+  readonly enqueue: ThrottleAttemptEvent<F> & {
+    /**
+     * The priority of the call.
+     */
+    readonly priority: number;
+
+    /**
+     * The time in milliseconds until the limits allow the call, counting the calls queued ahead of it. With a `store`,
+     * the calls queued ahead are not counted.
+     */
+    readonly delay: number;
+  };
+
+  /**
+   * A call started running.
+   */
+  readonly start: ThrottleAttemptEvent<F> & {
+    /**
+     * The time in milliseconds the call waited since it was enqueued.
+     */
+    readonly wait: number;
+  };
+
+  /**
+   * A call settled.
+   */
+  readonly settle: ThrottleAttemptEvent<F> & {
+    /**
+     * The time in milliseconds the call ran.
+     */
+    readonly duration: number;
+
+    readonly result: PromiseSettledResult<Awaited<ReturnType<F>>>;
+  };
+
+  /**
+   * A call was dropped because the queue was full.
+   */
+  readonly drop: ThrottleEvent<F>;
+
+  /**
+   * A queued call was removed because its signal, or the `signal` option, was aborted.
+   */
+  readonly abort: ThrottleEvent<F> & {
+    readonly reason: unknown;
+  };
+}
+
+export interface ThrottleStats {
+  /**
+   * The number of queued calls.
+   */
+  readonly queueSize: number;
+
+  /**
+   * The number of running calls.
+   */
+  readonly activeCount: number;
+
+  /**
+   * The number of events since the throttled function was created. Retries count as separate attempts.
+   */
+  readonly totals: {
+    readonly enqueued: number;
+    readonly delayed: number;
+    readonly started: number;
+    readonly fulfilled: number;
+    readonly rejected: number;
+    readonly dropped: number;
+    readonly aborted: number;
+  };
+
+  /**
+   * The weight that currently counts towards each limit.
+   */
+  readonly usage: readonly {
+    readonly limit: number;
+    readonly interval: number;
+    readonly used: number;
+  }[];
+
+  /**
+   * The time in milliseconds calls waited before starting.
+   */
+  readonly wait: {
+    readonly average: number;
+    readonly max: number;
+  };
+
+  /**
+   * The number of calls that started within the last second.
+   */
+  readonly throughput: number;
+}
+
+export interface DrainOptions {
+  /**
+   * The maximum time to wait in milliseconds.
+   *
+   * @default Infinity
+   */
+  readonly timeout?: number;
+}
+
+export type OverflowStrategy =
+  | 'reject'
+  | 'drop-oldest'
+  | ((...arguments_: readonly any[]) => unknown);
+
+export interface Options {
+  /**
+   * The maximum number of calls within an `interval`.
+   */
+  readonly limit: number;
+
+  /**
+   * The timespan for `limit` in milliseconds.
+   */
+  readonly interval: number;
+
+  /**
+   * Enforce several limits at once, such as 10 calls per second and 500 calls per minute.
+   *
+   * A call only runs once every rule has capacity for it, and counts towards all of them, including its `weight`.
+   * The throttling algorithm selected by `strict`, `tokenBucket` or `gcra` is applied to each rule.
+   * When set, `limit` and `interval` must be omitted.
+   *
+   * @example
+   * ```
+   * import Throttle from '@se-oss/throttle';
+   *
+   * const throttle = Throttle({
+   * 	limits: [
+   * 		{limit: 10, interval: 1000},
+   * 		{limit: 500, interval: 60_000},
+   * 		{limit: 10_000, interval: 86_400_000}
+   * 	]
+   * });
    * ```
    */
-  readonly weight?: (...arguments_: readonly any[]) => number;
+  readonly limits?: readonly LimitRule[];
+
+  /**
+   * Use a strict, more resource-intensive, throttling algorithm.
+   * The default algorithm uses a windowed approach that will work correctly in most cases,
+   * limiting the total number of calls at the specified limit per interval window.
+   * The strict algorithm throttles each call individually, ensuring the limit is not exceeded for any interval.
+   *
+   * @default false
+   */
+  readonly strict?: boolean;
+
+  /**
+   * Use a token bucket algorithm instead of the windowed or strict ones.
+   *
+   * The bucket holds up to `capacity` tokens and refills continuously at a rate of `limit` tokens per `interval`.
+   * Each call consumes its `weight` in tokens and is delayed until enough tokens are available, which allows short bursts
+   * of up to `capacity` calls while keeping the long-term rate at `limit` per `interval`.
+   *
+   * Pass `true` to use a bucket whose capacity equals `limit`.
+   *
+   * @example
+   * ```
+   * import Throttle from '@se-oss/throttle';
+   *
+   * // Bucket size 50, refill 10 tokens per second
+   * const throttle = Throttle({
+   * 	limit: 10,
+   * 	interval: 1000,
+   * 	tokenBucket: {capacity: 50}
+   * });
+   * ```
+   *
+   * @default false
+   */
+  readonly tokenBucket?: boolean | TokenBucketOptions;
+
+  /**
+   * Use the Generic Cell Rate Algorithm (also known as leaky bucket) to space calls evenly.
+   *
+   * Instead of allowing `limit` calls at the start of each window, calls are emitted one every `interval / limit`
+   * milliseconds. A call with a `weight` of `n` takes up `n` emission intervals. Only a single timestamp is kept,
+   * so memory usage does not grow with `limit`.
+   *
+   * Pass `true` for perfectly smooth emission, or set `burst` to let that many calls run back to back after an idle period.
+   *
+   * @example
+   * ```
+   * import Throttle from '@se-oss/throttle';
+   *
+   * // One call every 100ms, with up to 3 calls allowed at once when idle
+   * const throttle = Throttle({
+   * 	limit: 10,
+   * 	interval: 1000,
+   * 	gcra: {burst: 3}
+   * });
+   * ```
+   *
+   * @default false
+   */
+  readonly gcra?: boolean | GcraOptions;
+
+  /**
+   * The maximum number of calls that may be pending at once.
+   *
+   * Queued calls wait for both the rate limit and a free slot before they are executed.
+   *
+   * @example
+   * ```
+   * import Throttle from '@se-oss/throttle';
+   *
+   * // At most 10 requests per second, and no more than 3 in flight
+   * const throttle = Throttle({
+   * 	limit: 10,
+   * 	interval: 1000,
+   * 	concurrency: 3
+   * });
+   * ```
+   *
+   * @default Infinity
+   */
+  readonly concurrency?: number;
+
+  /**
+   * Abort pending executions. When aborted, all unresolved promises are rejected with `signal.reason`.
+   *
+   * @example
+   * ```
+   * import Throttle from '@se-oss/throttle';
+   *
+   * const controller = new AbortController();
+   *
+   * const throttle = Throttle({
+   * 	limit: 2,
+   * 	interval: 1000,
+   * 	signal: controller.signal
+   * });
+   *
+   * const throttled = throttle(() => {
+   * 	console.log('Executing...');
+   * });
+   *
+   * await throttled();
+   * await throttled();
+   * controller.abort('aborted');
+   * await throttled();
+   * //=> Executing...
+   * //=> Executing...
+   * //=> Promise rejected with reason `aborted`
+   * ```
+   */
+  signal?: AbortSignal;
+
+  /**
+   * Get notified when function calls are delayed due to exceeding the `limit` of allowed calls within the given `interval`.
+   *
+   * The delayed call arguments are passed to the `onDelay` callback. Can be useful for monitoring the throttling efficiency.
+   *
+   * @example
+   * ```
+   * import Throttle from '@se-oss/throttle';
+   *
+   * const throttle = Throttle({
+   * 	limit: 2,
+   * 	interval: 1000,
+   * 	onDelay: (a, b) => {
+   * 		console.log(`Reached interval limit, call is delayed for ${a} ${b}`);
+   * 	},
+   * });
+   *
+   * const throttled = throttle((a, b) => {
+   * 	console.log(`Executing with ${a} ${b}...`);
+   * });
+   *
+   * await throttled(1, 2);
+   * await throttled(3, 4);
+   * await throttled(5, 6);
+   * //=> Executing with 1 2...
+   * //=> Executing with 3 4...
+   * //=> Reached interval limit, call is delayed for 5 6
+   * //=> Executing with 5 6...
+   * ```
+   */
+  readonly onDelay?: (...arguments_: readonly any[]) => void;
+
+  /**
+   * The maximum number of calls that can wait in the queue. Calls beyond it are handled according to `overflow`.
+   *
+   * @default Infinity
+   */
+  readonly maxQueueSize?: number;
+
+  /**
+   * What to do when a call would grow the queue past `maxQueueSize`.
+   *
+   * - `'reject'`: Reject the new call with a `QueueFullError`.
+   * - `'drop-oldest'`: Reject the oldest queued call with a `QueueFullError` and queue the new one.
+   *   When using `priority`, the oldest call with the lowest priority is dropped, or the new call when its priority is
+   *   lower than that of every queued call.
+   * - A function: Call it with the arguments of the new call instead, and resolve with its result.
+   *
+   * @example
+   * ```
+   * import Throttle from '@se-oss/throttle';
+   *
+   * const throttle = Throttle({
+   * 	limit: 1,
+   * 	interval: 1000,
+   * 	maxQueueSize: 3,
+   * 	overflow: () => fetch('https://rough-api.example.com')
+   * });
+   * ```
+   *
+   * @default 'reject'
+   */
+  readonly overflow?: OverflowStrategy;
+
+  /**
+   * The maximum time in milliseconds a call may wait before it starts.
+   *
+   * Calls whose computed delay exceeds it are rejected right away with a `WaitTimeoutError`, without taking a spot
+   * in the queue, and queued calls are rejected with it once they waited that long.
+   *
+   * @default Infinity
+   *
+   * @example
+   * ```
+   * import Throttle, {WaitTimeoutError} from '@se-oss/throttle';
+   *
+   * const throttle = Throttle({limit: 10, interval: 1000, maxWait: 5000});
+   * const request = throttle(url => fetch(url));
+   *
+   * try {
+   * 	await request('https://api.example.com');
+   * } catch (error) {
+   * 	if (error instanceof WaitTimeoutError) {
+   * 		// Fall back instead of waiting
+   * 	}
+   * }
+   * ```
+   */
+  readonly maxWait?: number;
+
+  /**
+   * Get notified when a call is dropped because the queue is full.
+   *
+   * The dropped call arguments are passed to the `onDrop` callback.
+   */
+  readonly onDrop?: (...arguments_: readonly any[]) => void;
+
+  /**
+   * Calculate the weight/cost of each function call based on its arguments.
+   *
+   * The weight determines how much of the `limit` is consumed by each call.
+   * This is useful for rate limiting APIs that use point-based or cost-based limits,
+   * where different operations consume different amounts of the quota.
+   *
+   * By default, each call has a weight of `1`.
+   *
+   * The function may return a promise for costs that require a lookup. The call is queued once its weight is known.
+   *
+   * @example
+   * ```
+   * import Throttle from '@se-oss/throttle';
+   *
+   * // Storyblok GraphQL API: 100 points per second
+   * // Each query costs 1 point for the connection plus 1 point per table
+   * const throttle = Throttle({
+   * 	limit: 100,
+   * 	interval: 1000,
+   * 	weight: numberOfTables => 1 + numberOfTables
+   * });
+   *
+   * const fetchData = throttle(numberOfTables => {
+   * 	// Fetch GraphQL data
+   * 	return fetch('...');
+   * });
+   *
+   * await fetchData(1); // Costs 2 points
+   * await fetchData(3); // Costs 4 points
+   * ```
+   */
+  readonly weight?: (...arguments_: readonly any[]) => number | PromiseLike<number>;
+
+  /**
+   * Calculate the actual weight of a call once it settled, for APIs that report the cost only in their response.
+   *
+   * The difference to the weight charged up front is charged or refunded, so later calls are scheduled against
+   * the real consumption. Return `undefined` to keep the charged weight.
+   *
+   * @example
+   * ```
+   * import Throttle from '@se-oss/throttle';
+   *
+   * // 10,000 tokens per minute, estimated up front and corrected from the usage in the response
+   * const throttle = Throttle({
+   * 	limit: 10_000,
+   * 	interval: 60_000,
+   * 	weight: prompt => prompt.length / 4,
+   * 	actualWeight: result => result.status === 'fulfilled' ? result.value.usage.totalTokens : undefined
+   * });
+   * ```
+   */
+  readonly actualWeight?: (
+    result: PromiseSettledResult<any>,
+    ...arguments_: readonly any[]
+  ) => number | undefined | void;
+
+  /**
+   * Calculate the priority of each function call based on its arguments.
+   *
+   * Queued calls with a higher priority are executed before queued calls with a lower priority,
+   * and calls with the same priority are executed in the order they were made.
+   *
+   * By default, each call has a priority of `0`. Use `withOptions({priority})` to set it for a single call instead.
+   *
+   * @example
+   * ```
+   * import Throttle from '@se-oss/throttle';
+   *
+   * const throttle = Throttle({
+   * 	limit: 1,
+   * 	interval: 1000,
+   * 	priority: request => request.interactive ? 1 : 0
+   * });
+   *
+   * const send = throttle(request => fetch(request.url));
+   *
+   * for (const url of backgroundUrls) {
+   * 	send({url, interactive: false});
+   * }
+   *
+   * // Runs ahead of the queued background requests
+   * await send({url: 'https://api.example.com/me', interactive: true});
+   * ```
+   */
+  readonly priority?: (...arguments_: readonly any[]) => number;
+
+  /**
+   * Throttle calls independently per key, e.g. per tenant, user or API key.
+   *
+   * Each key gets its own queue and throttling state, and every other option applies per key.
+   * Use `keyTtl` and `maxKeys` to evict keys that are no longer used.
+   *
+   * @example
+   * ```
+   * import Throttle from '@se-oss/throttle';
+   *
+   * const throttle = Throttle({
+   * 	limit: 10,
+   * 	interval: 1000,
+   * 	key: tenant => tenant.id,
+   * 	keyTtl: 60_000
+   * });
+   *
+   * const fetchReport = throttle(tenant => fetch(`https://api.example.com/${tenant.id}/report`));
+   * ```
+   */
+  readonly key?: (...arguments_: readonly any[]) => string;
+
+  /**
+   * Evict a key once it has no queued or pending calls and has not been used for this many milliseconds.
+   *
+   * Keep it at least as long as `interval`, since an evicted key starts over with a fresh throttling state.
+   *
+   * @default Infinity
+   */
+  readonly keyTtl?: number;
+
+  /**
+   * The maximum number of keys to keep. When exceeded, the least recently used keys without queued or pending calls are evicted.
+   *
+   * @default Infinity
+   */
+  readonly maxKeys?: number;
+
+  /**
+   * Inspect the outcome of each call to adapt to the rate limit reported by the remote side.
+   *
+   * It receives the settled result of the call followed by the call arguments. Return a `RateLimitFeedback` to adjust the throttling state,
+   * which is equivalent to calling `penalize()` or `syncQuota()` for the key of the call.
+   *
+   * @example
+   * ```
+   * import Throttle from '@se-oss/throttle';
+   *
+   * const throttle = Throttle({
+   * 	limit: 100,
+   * 	interval: 60_000,
+   * 	inspect(result) {
+   * 		if (result.status === 'rejected') {
+   * 			return;
+   * 		}
+   *
+   * 		const {headers} = result.value;
+   * 		return {
+   * 			remaining: Number(headers.get('X-RateLimit-Remaining')),
+   * 			resetAt: Number(headers.get('X-RateLimit-Reset')) * 1000
+   * 		};
+   * 	}
+   * });
+   * ```
+   */
+  readonly inspect?: (
+    result: PromiseSettledResult<any>,
+    ...arguments_: readonly any[]
+  ) => RateLimitFeedback | undefined | void;
+
+  /**
+   * Retry failed calls with exponential backoff.
+   *
+   * Each retry goes through the throttle again, so it counts towards the limits like any other call.
+   * Pending retries are cancelled by `signal` and by the per-call `signal` of `withOptions`.
+   *
+   * @example
+   * ```
+   * import Throttle from '@se-oss/throttle';
+   *
+   * const throttle = Throttle({
+   * 	limit: 10,
+   * 	interval: 1000,
+   * 	retry: {
+   * 		retries: 5,
+   * 		shouldRetry: error => error.status >= 500
+   * 	}
+   * });
+   * ```
+   */
+  readonly retry?: RetryOptions;
+
+  /**
+   * Get notified when a failed call is about to be retried.
+   *
+   * The error, the number of the failed attempt and the call arguments are passed to the `onRetry` callback.
+   */
+  readonly onRetry?: (error: unknown, attempt: number, ...arguments_: readonly any[]) => void;
+
+  /**
+   * Merge calls that are waiting in the queue into one call to a batch function once the next slot opens,
+   * for APIs that accept bulk requests but limit the number of requests.
+   *
+   * A batch takes the slot of the first queued call and is charged its weight only. Calls that can start right away
+   * are not batched, and run the throttled function as usual.
+   *
+   * @example
+   * ```
+   * import Throttle from '@se-oss/throttle';
+   *
+   * const throttle = Throttle({
+   * 	limit: 1,
+   * 	interval: 1000,
+   * 	batch: {
+   * 		maxSize: 100,
+   * 		run: calls => fetchUsers(calls.map(([id]) => id)),
+   * 		split: (users, calls) => calls.map(([id]) => users.find(user => user.id === id) ?? new Error('Not found'))
+   * 	}
+   * });
+   *
+   * const getUser = throttle(id => fetchUsers([id]).then(([user]) => user));
+   * ```
+   */
+  readonly batch?: BatchOptions;
+
+  /**
+   * Share one call between identical calls while it is queued or running, instead of reserving a slot for each of them.
+   *
+   * Calls are identical when their arguments serialize to the same JSON, or when `dedupe.key` returns the same key.
+   * The shared call keeps the weight and priority of the first caller, and is only removed from the queue once every
+   * caller sharing it aborted.
+   *
+   * @default false
+   *
+   * @example
+   * ```
+   * import Throttle from '@se-oss/throttle';
+   *
+   * const throttle = Throttle({
+   * 	limit: 10,
+   * 	interval: 1000,
+   * 	dedupe: {key: url => url, ttl: 5000}
+   * });
+   *
+   * const request = throttle(url => fetch(url).then(response => response.json()));
+   *
+   * // Only one request is made
+   * await Promise.all([request('/users'), request('/users')]);
+   * ```
+   */
+  readonly dedupe?: boolean | DedupeOptions;
+
+  /**
+   * The source of time and timers, used for every timestamp and wait of the throttled function.
+   *
+   * Pass a clock from `createVirtualClock()` to test throttled behavior without waiting in real time.
+   *
+   * @default Date.now, setTimeout and clearTimeout
+   */
+  readonly clock?: Clock;
+
+  /**
+   * Start from the usage captured by `snapshot()`, e.g. in a previous run of the process, instead of an empty state.
+   *
+   * The recorded times are moved by the wall-clock time that passed since the snapshot was taken, so usage that is
+   * still within its interval counts towards the limits, even when the `clock` restarted from another time.
+   * The snapshot has to be taken with the same number of limits.
+   */
+  readonly initialState?: ThrottleSnapshot;
+
+  /**
+   * Keep the throttling state in a store, so several processes can share one quota.
+   *
+   * The store reserves the weight of each call atomically. Only the default windowed algorithm, `strict` and `gcra`
+   * are supported, and in `strict` mode the store tracks the weight of each call like with the `weight` option.
+   * The feedback from `inspect()`, `penalize()` and `syncQuota()` still only applies to this process.
+   *
+   * @default In memory
+   *
+   * @example
+   * ```
+   * import Throttle from '@se-oss/throttle';
+   * import {createFileStore} from '@se-oss/throttle/file-store';
+   *
+   * // Every worker process on the host shares 10 calls per second
+   * const throttle = Throttle({
+   * 	limit: 10,
+   * 	interval: 1000,
+   * 	store: createFileStore('/tmp/api-quota.json')
+   * });
+   * ```
+   */
+  readonly store?: ThrottleStore;
+
+  /**
+   * Draw from a `RateLimiter` instead of creating a queue and limits for this function alone.
+   *
+   * The options of the limiter are the defaults for the function. The options that belong to the limiter, such as `limit`,
+   * `interval`, `concurrency` and `signal`, cannot be given together with it, and `configure()` changes them for every
+   * function sharing it.
+   *
+   * @example
+   * ```
+   * import Throttle, {RateLimiter} from '@se-oss/throttle';
+   *
+   * const limiter = new RateLimiter({limit: 10, interval: 1000});
+   *
+   * const getUser = Throttle(id => fetch(`https://api.example.com/users/${id}`), {limiter});
+   * const getPost = Throttle(id => fetch(`https://api.example.com/posts/${id}`), {limiter});
+   * ```
+   */
+  readonly limiter?: RateLimiter;
+}
+
+export interface BatchOptions {
+  /**
+   * Run a batch, receiving the arguments of each merged call.
+   */
+  readonly run: (calls: readonly (readonly any[])[]) => unknown;
+
+  /**
+   * The maximum number of calls merged into a batch.
+   *
+   * @default Infinity
+   */
+  readonly maxSize?: number;
+
+  /**
+   * Split the batch result into one item per call, in the order of `calls`. Items that are `Error` instances reject
+   * their call, while the others fulfill it. By default, the batch result is expected to be such an array already.
+   */
+  readonly split?: (result: any, calls: readonly (readonly any[])[]) => readonly unknown[];
+}
+
+export interface DedupeOptions {
+  /**
+   * Get the key that identifies identical calls from the call arguments.
+   *
+   * @default JSON.stringify(arguments)
+   */
+  readonly key?: (...arguments_: readonly any[]) => string;
+
+  /**
+   * Reuse the value of a fulfilled call for this many milliseconds. Rejected calls are never reused.
+   *
+   * @default 0
+   */
+  readonly ttl?: number;
+}
+
+export interface Clock {
+  /**
+   * Get the current time in milliseconds since the epoch.
+   */
+  now(): number;
+
+  /**
+   * Call `callback` after `milliseconds`, returning a handle for `clearTimeout`.
+   */
+  setTimeout(callback: () => void, milliseconds: number): unknown;
+
+  /**
+   * Cancel a timer created with `setTimeout`.
+   */
+  clearTimeout(handle: unknown): void;
+}
+
+export interface VirtualClock extends Clock {
+  /**
+   * The number of timers waiting to fire.
+   */
+  readonly pendingTimers: number;
+
+  /**
+   * Move time forward by `milliseconds`, firing due timers in order and letting the calls they start settle in between.
+   */
+  advance(milliseconds: number): Promise<void>;
+
+  /**
+   * Fire all pending timers, including those they create, moving time forward as needed.
+   */
+  runAll(): Promise<void>;
+}
+
+export interface StoreRequest {
+  /**
+   * The key of the call when using the `key` option, which has a throttling state of its own.
+   */
+  readonly key?: string;
+
+  /**
+   * The weight to reserve.
+   */
+  readonly weight: number;
+
+  /**
+   * The current time in milliseconds since the epoch as reported by the `clock`.
+   */
+  readonly now: number;
+
+  readonly limit: number;
+
+  readonly interval: number;
+
+  /**
+   * Whether to use the `strict` algorithm instead of the windowed one.
+   */
+  readonly strict: boolean;
+
+  /**
+   * The options of the `gcra` algorithm when using it instead of the windowed one.
+   */
+  readonly gcra?: Required<GcraOptions>;
+}
+
+export interface ThrottleStore {
+  /**
+   * Reserve `weight` at `now` if it fits the limit and return `0`, or return the milliseconds until it would fit
+   * without reserving anything. Reserving has to be atomic when the store is shared.
+   */
+  reserve(request: StoreRequest): number | PromiseLike<number>;
+}
+
+export interface SharedStore extends ThrottleStore {
+  /**
+   * The memory holding the throttling state. Pass it to a worker, e.g. as `workerData`, and to `createSharedStore()` in
+   * the worker to draw from the same quota.
+   */
+  readonly buffer: SharedArrayBuffer;
+}
+
+export interface SharedStoreOptions {
+  /**
+   * The milliseconds to wait for the lock before `reserve` throws, e.g. when a worker was terminated while holding it.
+   *
+   * @default 5000
+   */
+  readonly timeout?: number;
+}
+
+export interface ThrottleSnapshot {
+  /**
+   * The wall-clock time when the snapshot was taken, in milliseconds since the epoch.
+   */
+  readonly savedAt: number;
+
+  /**
+   * The time of the `clock` when the snapshot was taken.
+   */
+  readonly now: number;
+
+  /**
+   * The state of the throttled function, followed by the state of each key when using the `key` option.
+   */
+  readonly lanes: readonly {
+    readonly key?: string;
+    readonly blockedUntil: number;
+    readonly quota?: { readonly remaining: number; readonly resetAt: number };
+    /**
+     * The usage of each limit, in the order of `limits`.
+     */
+    readonly rules: readonly {
+      readonly currentTick: number;
+      readonly activeWeight: number;
+      readonly strictTicks: readonly { readonly time: number; readonly weight: number }[];
+      readonly tokens: number;
+      /**
+       * `null` when the token bucket was never refilled.
+       */
+      readonly lastRefill: number | null;
+      readonly theoreticalArrival: number;
+    }[];
+  }[];
+}
+
+export interface RateLimitFeedback {
+  /**
+   * Hold back all calls for this many milliseconds.
+   */
+  readonly retryAfter?: number;
+
+  /**
+   * The remaining quota until `resetAt`. Both `remaining` and `resetAt` must be set to take effect.
+   */
+  readonly remaining?: number;
+
+  /**
+   * The time at which the quota resets, in milliseconds since the epoch.
+   */
+  readonly resetAt?: number;
+}
+
+export interface RetryOptions {
+  /**
+   * The maximum number of retries after the first attempt.
+   *
+   * @default 3
+   */
+  readonly retries?: number;
+
+  /**
+   * The backoff before the first retry in milliseconds. It is multiplied by `factor` for each following retry.
+   *
+   * @default 100
+   */
+  readonly minDelay?: number;
+
+  /**
+   * The maximum backoff in milliseconds.
+   *
+   * @default Infinity
+   */
+  readonly maxDelay?: number;
+
+  /**
+   * The exponential factor applied to the backoff after each retry.
+   *
+   * @default 2
+   */
+  readonly factor?: number;
+
+  /**
+   * Randomize each backoff between 0 and its computed value, so calls that failed together do not retry together.
+   *
+   * @default true
+   */
+  readonly jitter?: boolean;
+
+  /**
+   * Put retries ahead of queued calls with the same priority, instead of at the back of the queue.
+   *
+   * @default false
+   */
+  readonly prioritize?: boolean;
+
+  /**
+   * Decide whether a call that failed on the given attempt should be retried. All errors are retried by default.
+   */
+  readonly shouldRetry?: (error: any, attempt: number) => boolean;
+}
+
+export interface LimitRule {
+  /**
+   * The maximum number of calls within an `interval`.
+   */
+  readonly limit: number;
+
+  /**
+   * The timespan for `limit` in milliseconds.
+   */
+  readonly interval: number;
+}
+
+export interface TokenBucketOptions {
+  /**
+   * The maximum number of tokens the bucket can hold, i.e. the largest burst allowed after an idle period.
+   *
+   * @default limit
+   */
+  readonly capacity?: number;
+}
+
+export interface GcraOptions {
+  /**
+   * The number of calls that may run back to back before emission is spaced out. With the `weight` option, it is the
+   * total weight instead, and a heavier call starts once nothing is left to emit.
+   *
+   * @default 1
+   */
+  readonly burst?: number;
 }
@@ -0,0 +1,50 @@
+import type { BatchOptions } from '../typings';
+
+export const validateBatchOptions = (batch: BatchOptions): void => {
+  if (typeof batch !== 'object' || batch === null) {
+    throw new TypeError('Expected `batch` to be an object');
+  }
+
+  if (typeof batch.run !== 'function') {
+    throw new TypeError('Expected `batch.run` to be a function');
+  }
+
+  if (
+    batch.maxSize !== undefined &&
+    !(Number.isInteger(batch.maxSize) || batch.maxSize === Number.POSITIVE_INFINITY)
+  ) {
+    throw new TypeError('Expected `batch.maxSize` to be an integer or `Infinity`');
+  }
+
+  if (batch.maxSize !== undefined && batch.maxSize < 1) {
+    throw new TypeError('Expected `batch.maxSize` to be >= 1');
+  }
+
+  if (batch.split !== undefined && typeof batch.split !== 'function') {
+    throw new TypeError('Expected `batch.split` to be a function');
+  }
+};
+
+/**
+ * Run the arguments of several calls as one batch, and split its result into the outcome of each call.
+ * Items that are `Error` instances reject their call, and a failing batch rejects all of them.
+ */
+export const runBatch = async (
+  batch: BatchOptions,
+  calls: readonly (readonly unknown[])[]
+): Promise<PromiseSettledResult<unknown>[]> => {
+  const result: unknown = await batch.run(calls);
+  const items = batch.split ? batch.split(result, calls) : result;
+
+  if (!Array.isArray(items) || items.length !== calls.length) {
+    throw new TypeError(
+      `Expected the batch result to be an array with one item per call (${calls.length})`
+    );
+  }
+
+  return items.map((item: unknown) =>
+    item instanceof Error
+      ? { status: 'rejected', reason: item }
+      : { status: 'fulfilled', value: item }
+  );
+};
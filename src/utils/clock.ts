@@ -0,0 +1,54 @@
+import type { Clock } from '../typings';
+
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  setTimeout: (callback, milliseconds) => setTimeout(callback, milliseconds),
+  clearTimeout: (handle) => clearTimeout(handle as ReturnType<typeof setTimeout>),
+};
+
+/**
+ * Call `callback` after `milliseconds` on the given clock, returning a function that cancels it.
+ */
+export const startTimer = (clock: Clock, milliseconds: number, callback: () => void) => {
+  const handle = clock.setTimeout(callback, milliseconds);
+  return () => clock.clearTimeout(handle);
+};
+
+/**
+ * Wait for `milliseconds` on the given clock. The promise is rejected with `signal.reason` when the signal is aborted,
+ * or with the reason passed to the function it adds to `cancels` while waiting, which lets a single listener cancel
+ * many waits.
+ */
+export const sleep = (
+  clock: Clock,
+  milliseconds: number,
+  signal?: AbortSignal,
+  cancels?: Set<(reason: unknown) => void>
+) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const settle = () => {
+      cancelTimer();
+      signal?.removeEventListener('abort', onAbort);
+      cancels?.delete(cancel);
+    };
+
+    const cancel = (reason: unknown) => {
+      settle();
+      reject(reason);
+    };
+
+    const onAbort = () => cancel(signal!.reason);
+
+    const cancelTimer = startTimer(clock, milliseconds, () => {
+      settle();
+      resolve();
+    });
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+    cancels?.add(cancel);
+  });
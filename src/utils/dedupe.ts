@@ -0,0 +1,104 @@
+interface PendingCall<T> {
+  readonly key: string;
+  readonly promise: Promise<T>;
+  readonly controller: AbortController;
+  subscribers: number;
+}
+
+export type Deduper<T> = (
+  key: string,
+  signal: AbortSignal | undefined,
+  create: (signal: AbortSignal) => Promise<T>
+) => Promise<T>;
+
+/**
+ * Share one call between all callers with the same key while it is pending, and reuse its value for `ttl`
+ * milliseconds once it fulfilled. The shared call is only aborted once every caller that shares it aborted.
+ */
+export const createDeduper = <T>(ttl: number, now: () => number): Deduper<T> => {
+  const pendingCalls = new Map<string, PendingCall<T>>();
+  // Settled values are kept in the order they expire in, since `ttl` is the same for all of them
+  const settledValues = new Map<string, { value: T; expiresAt: number }>();
+
+  const sweep = (time: number) => {
+    for (const [key, { expiresAt }] of settledValues) {
+      if (expiresAt > time) {
+        return;
+      }
+      settledValues.delete(key);
+    }
+  };
+
+  const subscribe = (call: PendingCall<T>, signal: AbortSignal | undefined): Promise<T> => {
+    call.subscribers++;
+    if (!signal) {
+      return call.promise;
+    }
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        reject(signal.reason);
+        call.subscribers--;
+        if (call.subscribers === 0) {
+          // Removed right away, so an identical call made before the aborted one settles starts a new one
+          pendingCalls.delete(call.key);
+          call.controller.abort(signal.reason);
+        }
+      };
+
+      signal.addEventListener('abort', onAbort, { once: true });
+      call.promise.then(
+        (value) => {
+          signal.removeEventListener('abort', onAbort);
+          resolve(value);
+        },
+        (error: unknown) => {
+          signal.removeEventListener('abort', onAbort);
+          reject(error);
+        }
+      );
+    });
+  };
+
+  return (key, signal, create) => {
+    sweep(now());
+
+    const settled = settledValues.get(key);
+    if (settled) {
+      return Promise.resolve(settled.value);
+    }
+
+    let call = pendingCalls.get(key);
+    if (!call) {
+      const controller = new AbortController();
+      const pendingCall: PendingCall<T> = {
+        key,
+        promise: create(controller.signal),
+        controller,
+        subscribers: 0,
+      };
+
+      pendingCall.promise.then(
+        (value) => {
+          // Unless every caller aborted it, and another call with the key was started since
+          if (pendingCalls.get(key) === pendingCall) {
+            pendingCalls.delete(key);
+            if (ttl > 0) {
+              settledValues.set(key, { value, expiresAt: now() + ttl });
+            }
+          }
+        },
+        () => {
+          if (pendingCalls.get(key) === pendingCall) {
+            pendingCalls.delete(key);
+          }
+        }
+      );
+
+      call = pendingCall;
+      pendingCalls.set(key, call);
+    }
+
+    return subscribe(call, signal);
+  };
+};
@@ -1,137 +1,411 @@
 import type { Options } from '../typings';
+import { resetRateState } from './state';
 import type { ThrottleState } from './state';
 
-const insertTickSorted = (
-  strictTicks: { time: number; weight: number }[],
-  tickRecord: { time: number; weight: number }
-): void => {
-  if (strictTicks.length === 0 || tickRecord.time >= strictTicks.at(-1)!.time) {
-    strictTicks.push(tickRecord);
-  } else {
-    const insertIndex = strictTicks.findIndex((tick) => tick.time > tickRecord.time);
-    strictTicks.splice(insertIndex, 0, tickRecord);
-  }
-};
+/**
+ * Charge or refund the difference once the actual weight of a recorded call is known.
+ */
+export type Reconcile = (actualWeight: number, now: number) => void;
 
-const windowedDelay = (state: ThrottleState, options: Options, requestWeight: number): number => {
-  const now = Date.now();
+const noop: Reconcile = () => {};
 
+// Strict mode tracks weights only when they can differ between calls, and counts calls otherwise
+const isWeighted = (options: Options): boolean => Boolean(options.weight || options.actualWeight);
+
+const windowedDelay = (
+  state: ThrottleState,
+  options: Options,
+  requestWeight: number,
+  now: number
+): number => {
   if (now - state.currentTick > options.interval) {
-    state.activeWeight = requestWeight;
-    state.currentTick = now;
     return 0;
   }
 
   if (state.activeWeight + requestWeight <= options.limit) {
+    return 0;
+  }
+
+  return Math.max(0, state.currentTick + options.interval - now);
+};
+
+const windowedRecord = (
+  state: ThrottleState,
+  options: Options,
+  requestWeight: number,
+  now: number
+): Reconcile => {
+  if (now - state.currentTick > options.interval) {
+    state.activeWeight = requestWeight;
+    state.currentTick = now;
+  } else if (state.activeWeight + requestWeight <= options.limit) {
     state.activeWeight += requestWeight;
   } else {
     state.currentTick += options.interval;
     state.activeWeight = requestWeight;
   }
 
-  return state.currentTick - now;
+  // Only the window the call was counted in is adjusted, later windows start from scratch anyway
+  const windowStart = state.currentTick;
+  return (actualWeight, now) => {
+    if (state.currentTick === windowStart && now - windowStart <= options.interval) {
+      state.activeWeight = Math.max(0, state.activeWeight + actualWeight - requestWeight);
+    }
+  };
 };
 
-const strictDelay = (
+export const getBucketCapacity = (options: Options): number => {
+  if (typeof options.tokenBucket === 'object' && options.tokenBucket.capacity !== undefined) {
+    return options.tokenBucket.capacity;
+  }
+  return options.limit;
+};
+
+const refillTokens = (state: ThrottleState, options: Options, now: number): number => {
+  const refillRate = options.limit / options.interval;
+
+  // The bucket starts out full, since `lastRefill` is `-Infinity` for a fresh state
+  return Math.min(
+    getBucketCapacity(options),
+    state.tokens + Math.max(0, now - state.lastRefill) * refillRate
+  );
+};
+
+const tokenBucketDelay = (
   state: ThrottleState,
   options: Options,
-  requestWeight: number
-): {
-  delay: number;
-  tickRecord?: { time: number; weight: number };
-} => {
-  const now = Date.now();
+  requestWeight: number,
+  now: number
+): number => {
+  const tokens = refillTokens(state, options, now);
+  if (tokens >= requestWeight) {
+    return 0;
+  }
 
-  if (state.strictTicks.length > 0 && now - state.strictTicks.at(-1)!.time > options.interval) {
-    state.strictTicks.length = 0;
+  return Math.ceil(((requestWeight - tokens) * options.interval) / options.limit);
+};
+
+const tokenBucketRecord = (
+  state: ThrottleState,
+  options: Options,
+  requestWeight: number,
+  now: number
+): Reconcile => {
+  state.tokens = refillTokens(state, options, now) - requestWeight;
+  state.lastRefill = now;
+
+  // Charging more than is left puts the bucket in debt, which has to be refilled before the next call
+  return (actualWeight, now) => {
+    state.tokens = Math.min(
+      getBucketCapacity(options),
+      refillTokens(state, options, now) - (actualWeight - requestWeight)
+    );
+    state.lastRefill = now;
+  };
+};
+
+export const getGcraBurst = (options: Options): number => {
+  if (typeof options.gcra === 'object' && options.gcra.burst !== undefined) {
+    return options.gcra.burst;
   }
+  return 1;
+};
 
-  if (options.weight) {
-    while (state.strictTicks.length > 0 && now - state.strictTicks[0]!.time >= options.interval) {
-      state.strictTicks.shift();
-    }
+// A call may start once its whole weight fits the burst tolerance, i.e. `arrival + weight * T - now <= burst * T`.
+// A call heavier than the burst starts once nothing is left to emit instead, and the calls after it wait for its weight.
+const gcraDelay = (
+  state: ThrottleState,
+  options: Options,
+  requestWeight: number,
+  now: number
+): number => {
+  const emissionInterval = options.interval / options.limit;
+  const burst = getGcraBurst(options);
+  const tolerance = burst * emissionInterval;
+  const arrival = Math.max(state.theoreticalArrival, now);
 
-    const weightInWindowAt = (time: number): number => {
-      let total = 0;
-      for (const tick of state.strictTicks) {
-        if (tick.time <= time && time - tick.time < options.interval) {
-          total += tick.weight;
-        }
-      }
-      return total;
-    };
+  return Math.max(
+    0,
+    Math.ceil(arrival + Math.min(requestWeight, burst) * emissionInterval - tolerance - now)
+  );
+};
+
+const gcraRecord = (
+  state: ThrottleState,
+  options: Options,
+  requestWeight: number,
+  now: number
+): Reconcile => {
+  const emissionInterval = options.interval / options.limit;
+  const arrival = Math.max(state.theoreticalArrival, now);
+
+  state.theoreticalArrival = arrival + requestWeight * emissionInterval;
+
+  return (actualWeight, now) => {
+    const adjusted = state.theoreticalArrival + (actualWeight - requestWeight) * emissionInterval;
+    // A refund cannot move the theoretical arrival into the past, which would allow a burst
+    state.theoreticalArrival = Math.max(adjusted, Math.min(state.theoreticalArrival, now));
+  };
+};
+
+const strictDelay = (
+  state: ThrottleState,
+  options: Options,
+  requestWeight: number,
+  now: number
+): number => {
+  if (state.strictTicks.length === 0 || now - state.strictTicks.timeAt(-1) > options.interval) {
+    return 0;
+  }
+
+  if (isWeighted(options)) {
+    const { strictTicks } = state;
+    const fits = (start: number, end: number) =>
+      strictTicks.sum(start, end) + requestWeight <= options.limit;
 
-    if (weightInWindowAt(now) + requestWeight <= options.limit) {
-      const tickRecord = { time: now, weight: requestWeight };
-      insertTickSorted(state.strictTicks, tickRecord);
-      return { delay: 0 };
+    // The ticks in the window ending at `time`, i.e. recorded at or before it, but less than an interval before
+    const getWindow = (time: number) => ({
+      start: strictTicks.search((tickTime) => time - tickTime < options.interval),
+      end:
+        time >= strictTicks.timeAt(-1)
+          ? strictTicks.length
+          : strictTicks.search((tickTime) => tickTime > time),
+    });
+
+    let { start, end } = getWindow(now);
+    if (fits(start, end)) {
+      return 0;
     }
 
-    let nextExecutionTime = now;
-    while (weightInWindowAt(nextExecutionTime) + requestWeight > options.limit) {
-      const firstInWindow = state.strictTicks.find(
-        (tick) => tick.time <= nextExecutionTime && nextExecutionTime - tick.time < options.interval
+    // Without ticks after `now`, the weight in the window only drops as time passes, so the call can start once
+    // enough of the ticks at the start expired
+    if (end === strictTicks.length) {
+      return (
+        strictTicks.timeAt(strictTicks.searchSuffix(options.limit - requestWeight) - 1) +
+        options.interval -
+        now
       );
+    }
 
-      if (!firstInWindow) {
-        break;
-      }
-
-      nextExecutionTime = firstInWindow.time + options.interval;
+    // Otherwise the window is moved past its first tick until the weight fits
+    let nextExecutionTime = now;
+    while (start < end && !fits(start, end)) {
+      nextExecutionTime = strictTicks.timeAt(start) + options.interval;
+      ({ start, end } = getWindow(nextExecutionTime));
     }
 
-    const tickRecord = { time: nextExecutionTime, weight: requestWeight };
-    insertTickSorted(state.strictTicks, tickRecord);
-    return { delay: Math.max(0, nextExecutionTime - now), tickRecord };
+    return Math.max(0, nextExecutionTime - now);
   }
 
   const strictCapacity = Math.max(options.limit, 1);
   if (state.strictTicks.length < strictCapacity) {
-    state.strictTicks.push({ time: now, weight: requestWeight });
-    return { delay: 0 };
+    return 0;
   }
 
-  const oldestTime = state.strictTicks[0]!.time;
-  const mostRecentTime = state.strictTicks.at(-1)!.time;
+  const oldestTime = state.strictTicks.timeAt(0);
+  const mostRecentTime = state.strictTicks.timeAt(-1);
   const baseTime = oldestTime + options.interval;
   const minSpacing = options.interval > 0 ? Math.ceil(options.interval / strictCapacity) : 0;
   const nextExecutionTime = baseTime <= mostRecentTime ? mostRecentTime + minSpacing : baseTime;
 
-  state.strictTicks.shift();
-  const tickRecord = { time: nextExecutionTime, weight: requestWeight };
-  state.strictTicks.push(tickRecord);
+  return Math.max(0, nextExecutionTime - now);
+};
+
+const strictRecord = (
+  state: ThrottleState,
+  options: Options,
+  requestWeight: number,
+  now: number
+): Reconcile => {
+  const { strictTicks } = state;
+  if (strictTicks.length > 0 && now - strictTicks.timeAt(-1) > options.interval) {
+    strictTicks.clear();
+  }
+
+  if (isWeighted(options)) {
+    strictTicks.shift(strictTicks.search((tickTime) => now - tickTime < options.interval));
+
+    return strictTicks.insert(now, requestWeight);
+  }
+
+  if (strictTicks.length >= Math.max(options.limit, 1)) {
+    strictTicks.shift();
+  }
 
-  return { delay: Math.max(0, nextExecutionTime - now), tickRecord };
+  strictTicks.push(now, requestWeight);
+  return noop;
 };
 
-export type DelayCalculator = (requestWeight: number) =>
-  | number
-  | {
-      delay: number;
-      tickRecord?: { time: number; weight: number };
-    };
+export interface DelayCalculator {
+  /**
+   * Get the milliseconds a call with the given weight has to wait before it can start at `now`, without recording it.
+   */
+  readonly getDelay: (requestWeight: number, now: number) => number;
+
+  /**
+   * Record a call with the given weight as started at `now`, returning a function to reconcile its actual weight.
+   */
+  readonly record: (requestWeight: number, now: number) => Reconcile;
+}
 
 export const createDelayCalculator = (state: ThrottleState, options: Options): DelayCalculator => {
+  if (options.tokenBucket) {
+    return {
+      getDelay: (requestWeight, now) => tokenBucketDelay(state, options, requestWeight, now),
+      record: (requestWeight, now) => tokenBucketRecord(state, options, requestWeight, now),
+    };
+  }
+  if (options.gcra) {
+    return {
+      getDelay: (requestWeight, now) => gcraDelay(state, options, requestWeight, now),
+      record: (requestWeight, now) => gcraRecord(state, options, requestWeight, now),
+    };
+  }
   if (options.strict) {
-    return (requestWeight: number) => strictDelay(state, options, requestWeight);
+    return {
+      getDelay: (requestWeight, now) => strictDelay(state, options, requestWeight, now),
+      record: (requestWeight, now) => strictRecord(state, options, requestWeight, now),
+    };
+  }
+  return {
+    getDelay: (requestWeight, now) => windowedDelay(state, options, requestWeight, now),
+    record: (requestWeight, now) => windowedRecord(state, options, requestWeight, now),
+  };
+};
+
+/**
+ * Create a calculator that holds calls back according to feedback from the remote side,
+ * i.e. `blockedUntil` from a penalty and `quota` from the reported remaining quota.
+ */
+export const createFeedbackCalculator = (state: ThrottleState): DelayCalculator => ({
+  getDelay: (requestWeight, now) => {
+    let delay = Math.max(0, state.blockedUntil - now);
+    if (state.quota && now < state.quota.resetAt && state.quota.remaining < requestWeight) {
+      delay = Math.max(delay, state.quota.resetAt - now);
+    }
+    return delay;
+  },
+  record: (requestWeight, now) => {
+    const { quota } = state;
+    if (!quota || now >= quota.resetAt) {
+      state.quota = undefined;
+      return noop;
+    }
+
+    quota.remaining -= requestWeight;
+    return (actualWeight) => {
+      // The quota may have been replaced by newer feedback, which already accounts for the call
+      if (state.quota === quota) {
+        quota.remaining -= actualWeight - requestWeight;
+      }
+    };
+  },
+});
+
+/**
+ * Combine calculators so a call waits until every one of them has capacity, and is recorded in all of them.
+ */
+export const combineDelayCalculators = (calculators: DelayCalculator[]): DelayCalculator => {
+  if (calculators.length === 1) {
+    return calculators[0]!;
+  }
+
+  return {
+    getDelay: (requestWeight, now) => {
+      let delay = 0;
+      for (const calculator of calculators) {
+        delay = Math.max(delay, calculator.getDelay(requestWeight, now));
+      }
+      return delay;
+    },
+    record: (requestWeight, now) => {
+      const reconciles = calculators.map((calculator) => calculator.record(requestWeight, now));
+      return (actualWeight, now) => {
+        for (const reconcile of reconciles) {
+          reconcile(actualWeight, now);
+        }
+      };
+    },
+  };
+};
+
+const getAlgorithm = (options: Options): 'tokenBucket' | 'gcra' | 'strict' | 'windowed' => {
+  if (options.tokenBucket) {
+    return 'tokenBucket';
   }
-  return (requestWeight: number) => windowedDelay(state, options, requestWeight);
+  if (options.gcra) {
+    return 'gcra';
+  }
+  return options.strict ? 'strict' : 'windowed';
 };
 
-export const updateTickRecord = (
+/**
+ * Get the calls that still count towards the limit at `now`, as recorded in the state of any algorithm.
+ */
+const getRecentUsage = (
   state: ThrottleState,
-  tickRecord: { time: number; weight: number },
-  isWeighted: boolean,
-  actualTime = Date.now()
-) => {
-  if (isWeighted && tickRecord.time !== actualTime) {
-    tickRecord.time = actualTime;
-    const index = state.strictTicks.indexOf(tickRecord);
-    if (index !== -1) {
-      state.strictTicks.splice(index, 1);
-      insertTickSorted(state.strictTicks, tickRecord);
+  options: Options,
+  now: number
+): { time: number; weight: number }[] => {
+  switch (getAlgorithm(options)) {
+    case 'tokenBucket': {
+      const used = getBucketCapacity(options) - refillTokens(state, options, now);
+      return used > 0 ? [{ time: now, weight: used }] : [];
+    }
+    case 'gcra': {
+      const backlog = state.theoreticalArrival - now;
+      const emissionInterval = options.interval / options.limit;
+      return backlog > 0 ? [{ time: now, weight: backlog / emissionInterval }] : [];
+    }
+    case 'strict': {
+      return state.strictTicks.toArray().filter((tick) => now - tick.time < options.interval);
+    }
+    default: {
+      return now - state.currentTick <= options.interval && state.activeWeight > 0
+        ? [{ time: state.currentTick, weight: state.activeWeight }]
+        : [];
+    }
+  }
+};
+
+/**
+ * Get the weight that counts towards the limit at `now`.
+ */
+export const getUsage = (state: ThrottleState, options: Options, now: number): number =>
+  getRecentUsage(state, options, now).reduce((total, { weight }) => total + weight, 0);
+
+/**
+ * Carry the usage recorded in `from` under `fromOptions` over to `to` under `toOptions`, so changing the limits
+ * or the algorithm does not allow a new burst of calls. `from` and `to` may be the same state.
+ */
+export const migrateThrottleState = (
+  from: ThrottleState,
+  fromOptions: Options,
+  to: ThrottleState,
+  toOptions: Options,
+  now: number
+): void => {
+  if (from === to && getAlgorithm(fromOptions) === getAlgorithm(toOptions)) {
+    const strictCapacity = Math.max(toOptions.limit, 1);
+    if (toOptions.strict && !isWeighted(toOptions) && to.strictTicks.length > strictCapacity) {
+      to.strictTicks.shift(to.strictTicks.length - strictCapacity);
+    }
+    return;
+  }
+
+  const usage = getRecentUsage(from, fromOptions, now);
+  resetRateState(to);
+
+  const calculator = createDelayCalculator(to, toOptions);
+  for (const tick of usage) {
+    if (toOptions.strict && !isWeighted(toOptions)) {
+      // Unweighted strict mode counts ticks, so usage is expanded into one tick per call
+      const count = Math.min(Math.ceil(tick.weight), Math.max(toOptions.limit, 1));
+      for (let index = 0; index < count; index++) {
+        calculator.record(1, tick.time);
+      }
+    } else {
+      calculator.record(tick.weight, tick.time);
     }
-  } else {
-    tickRecord.time = actualTime;
   }
 };
@@ -0,0 +1,52 @@
+export type Listener<T> = (event: T) => void;
+
+export interface Emitter<Events> {
+  /**
+   * Add a listener, returning a function that removes it again.
+   */
+  readonly on: <E extends keyof Events>(event: E, listener: Listener<Events[E]>) => () => void;
+  readonly off: <E extends keyof Events>(event: E, listener: Listener<Events[E]>) => void;
+  readonly emit: <E extends keyof Events>(event: E, payload: Events[E]) => void;
+}
+
+/**
+ * A minimal typed event emitter. Errors thrown by listeners are ignored, so they cannot break the throttling.
+ */
+export const createEmitter = <Events>(): Emitter<Events> => {
+  const listeners = new Map<keyof Events, Set<Listener<any>>>();
+
+  const off: Emitter<Events>['off'] = (event, listener) => {
+    listeners.get(event)?.delete(listener);
+  };
+
+  const on: Emitter<Events>['on'] = (event, listener) => {
+    if (typeof listener !== 'function') {
+      throw new TypeError('Expected `listener` to be a function');
+    }
+
+    let eventListeners = listeners.get(event);
+    if (!eventListeners) {
+      eventListeners = new Set();
+      listeners.set(event, eventListeners);
+    }
+
+    eventListeners.add(listener);
+    return () => off(event, listener);
+  };
+
+  const emit: Emitter<Events>['emit'] = (event, payload) => {
+    const eventListeners = listeners.get(event);
+    if (!eventListeners) {
+      return;
+    }
+
+    for (const listener of [...eventListeners]) {
+      try {
+        listener(payload);
+        // eslint-disable-next-line no-empty
+      } catch {} // Ignore listener errors
+    }
+  };
+
+  return { on, off, emit };
+};
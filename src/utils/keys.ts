@@ -0,0 +1,93 @@
+export interface KeyRegistryOptions {
+  readonly ttl?: number;
+  readonly maxKeys?: number;
+}
+
+export interface KeyRegistry<T> {
+  /**
+   * Get the value for a key, creating it if needed, and mark the key as used at `now`.
+   */
+  readonly get: (key: string, now: number) => T;
+  readonly peek: (key: string) => T | undefined;
+  readonly touch: (key: string, now: number) => void;
+  readonly keys: (now: number) => string[];
+  readonly values: () => T[];
+}
+
+/**
+ * A map of per-key values that evicts idle keys once they are unused for `ttl` milliseconds,
+ * or when there are more than `maxKeys` keys. Keys whose values are not idle are never evicted.
+ */
+export const createKeyRegistry = <T>(
+  create: (key: string) => T,
+  isIdle: (value: T) => boolean,
+  options: KeyRegistryOptions
+): KeyRegistry<T> => {
+  // Entries are kept in least recently used order
+  const entries = new Map<string, { value: T; lastUsed: number }>();
+
+  const markUsed = (key: string, entry: { value: T; lastUsed: number }, now: number) => {
+    entries.delete(key);
+    entry.lastUsed = now;
+    entries.set(key, entry);
+  };
+
+  const sweep = (now: number) => {
+    if (options.ttl === undefined) {
+      return;
+    }
+
+    for (const [key, entry] of entries) {
+      if (now - entry.lastUsed < options.ttl) {
+        break;
+      }
+
+      if (isIdle(entry.value)) {
+        entries.delete(key);
+      }
+    }
+  };
+
+  const evictLeastRecentlyUsed = () => {
+    if (options.maxKeys === undefined || entries.size < options.maxKeys) {
+      return;
+    }
+
+    for (const [key, entry] of entries) {
+      if (isIdle(entry.value)) {
+        entries.delete(key);
+      }
+
+      if (entries.size < options.maxKeys) {
+        return;
+      }
+    }
+  };
+
+  return {
+    get: (key, now) => {
+      sweep(now);
+
+      let entry = entries.get(key);
+      if (!entry) {
+        evictLeastRecentlyUsed();
+        entry = { value: create(key), lastUsed: now };
+      }
+
+      markUsed(key, entry, now);
+      return entry.value;
+    },
+    peek: (key) => entries.get(key)?.value,
+    touch: (key, now) => {
+      const entry = entries.get(key);
+      if (entry) {
+        markUsed(key, entry, now);
+      }
+    },
+    keys: (now) => {
+      sweep(now);
+      return [...entries.keys()];
+    },
+    values: () => Array.from(entries.values(), (entry) => entry.value),
+  };
+};
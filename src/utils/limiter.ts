@@ -0,0 +1,1004 @@
+import { Abort } from 'abort-signal';
+
+import { WaitTimeoutError } from '../errors';
+import type {
+  BatchOptions,
+  Clock,
+  DrainOptions,
+  Options,
+  RateLimitFeedback,
+  ThrottleSnapshot,
+} from '../typings';
+import { runBatch } from './batch';
+import { sleep, startTimer, systemClock } from './clock';
+import {
+  combineDelayCalculators,
+  createDelayCalculator,
+  createFeedbackCalculator,
+  getGcraBurst,
+  migrateThrottleState,
+} from './delay';
+import type { DelayCalculator, Reconcile } from './delay';
+import { createKeyRegistry } from './keys';
+import {
+  defaultOptions,
+  getMaxWeight,
+  getRuleOptions,
+  mergeConfiguration,
+  validateOptions,
+} from './options';
+import type { Configuration } from './options';
+import {
+  cloneRateState,
+  createThrottleState,
+  findDropIndex,
+  insertQueuedCall,
+  resetThrottleState,
+  restoreRateState,
+  snapshotRateState,
+} from './state';
+import type { QueuedCall, ThrottleState } from './state';
+
+export interface Lane {
+  readonly key?: string;
+  readonly state: ThrottleState;
+  ruleStates: readonly ThrottleState[];
+  calculator: DelayCalculator;
+  /**
+   * Whether the head of the queue waits for the store to reserve its weight.
+   */
+  isReserving: boolean;
+  /**
+   * The queue replayed on copies of the lane states, kept while calls are only appended to it or started from its head.
+   */
+  tail?: SimulatedTail;
+  readonly dispatch: () => void;
+}
+
+interface SimulatedTail {
+  readonly calculator: DelayCalculator;
+  /**
+   * The time the last simulated call starts.
+   */
+  time: number;
+  last: QueuedCall | undefined;
+}
+
+interface Reservation {
+  /**
+   * The milliseconds until the weight fits, or `0` when it was reserved.
+   */
+  readonly delay: number;
+  readonly reconcile: Reconcile;
+}
+
+export interface LimiterRequest {
+  readonly args: readonly unknown[];
+  readonly key?: string;
+  readonly weight: number;
+  readonly priority: number;
+  readonly batch?: BatchOptions;
+  readonly signal?: AbortSignal;
+  readonly deadline?: number;
+  /**
+   * What to do when the queue is full. A function takes care of the request instead of queueing it.
+   */
+  readonly overflow: 'reject' | 'drop-oldest' | (() => void);
+  /**
+   * Whether the request already held a spot in the queue, which exempts it from `maxQueueSize`.
+   */
+  readonly isRetry?: boolean;
+  /**
+   * Queue the request before the queued requests with the same priority.
+   */
+  readonly isAhead?: boolean;
+  /**
+   * Reject the request with a `WaitTimeoutError` instead of queueing it.
+   */
+  readonly isImmediate?: boolean;
+  readonly onEnqueue: (delay: number, isQueued: boolean) => void;
+  readonly start: (
+    reconcile: Reconcile,
+    enqueuedAt: number,
+    batchResult?: Promise<unknown>
+  ) => void;
+  readonly reject: (reason: unknown) => void;
+  readonly drop: () => void;
+  readonly abort: (reason: unknown) => void;
+  readonly reweigh: () => number | Promise<number>;
+}
+
+export interface Limiter {
+  readonly clock: Clock;
+  readonly options: Options;
+  readonly ruleOptions: readonly Options[];
+  readonly isPaused: boolean;
+  /**
+   * Calls waiting for a retry backoff or an async weight, which are neither queued nor running.
+   */
+  pendingCount: number;
+  readonly getLane: (key: string | undefined) => Lane;
+  readonly peekLane: (key: string | undefined) => Lane | undefined;
+  readonly getLanes: () => Lane[];
+  readonly touch: (key: string) => void;
+  readonly keys: () => string[];
+  readonly snapshot: () => ThrottleSnapshot;
+  readonly checkWeight: (requestWeight: number) => number;
+  /**
+   * Record the weight and return its reconcile function if it can start right away, or return `undefined` otherwise.
+   */
+  readonly tryStart: (lane: Lane, requestWeight: number) => Reconcile | undefined;
+  readonly schedule: (lane: Lane, request: LimiterRequest) => void;
+  readonly estimateDelay: (
+    lane: Lane | undefined,
+    requestWeight: number,
+    priority: number
+  ) => number;
+  readonly applyFeedback: (lane: Lane, feedback: RateLimitFeedback) => void;
+  readonly penalize: (milliseconds: number, key?: string) => void;
+  readonly syncQuota: (
+    quota: { readonly remaining: number; readonly resetAt: number },
+    key?: string
+  ) => void;
+  readonly configure: (configuration: Configuration) => void;
+  readonly pause: () => void;
+  readonly resume: () => void;
+  readonly onEmpty: () => Promise<void>;
+  readonly onIdle: () => Promise<void>;
+  readonly drain: (options?: DrainOptions) => Promise<boolean>;
+  readonly notifyWaiters: () => void;
+  /**
+   * Wait before retrying a call, rejecting when `signal` or the signal of the limiter is aborted.
+   */
+  readonly sleep: (milliseconds: number, signal: AbortSignal | undefined) => Promise<void>;
+}
+
+const noop: Reconcile = () => {};
+
+export const isPromiseLike = (value: unknown): value is PromiseLike<unknown> =>
+  typeof (value as PromiseLike<unknown> | undefined)?.then === 'function';
+
+/**
+ * Create the queues and throttling state shared by everything that draws from one set of limits.
+ */
+export const createLimiter = (options: Partial<Options>): Limiter => {
+  let resolvedOptions: Options = { ...defaultOptions, ...options };
+  validateOptions(resolvedOptions);
+
+  if (resolvedOptions.signal) {
+    resolvedOptions.signal.throwIfAborted();
+  }
+
+  const clock = resolvedOptions.clock ?? systemClock;
+  let concurrency = resolvedOptions.concurrency ?? Number.POSITIVE_INFINITY;
+  let ruleOptions = getRuleOptions(resolvedOptions);
+  let maxWeight = getMaxWeight(ruleOptions);
+  let isPaused = false;
+
+  const checkWeight = (requestWeight: number): number => {
+    if (!Number.isFinite(requestWeight) || requestWeight < 0) {
+      throw new TypeError('Expected `weight` to be a finite non-negative number');
+    }
+
+    if (requestWeight > maxWeight) {
+      const name = resolvedOptions.tokenBucket ? 'capacity' : 'limit';
+      throw new TypeError(
+        `Expected \`weight\` (${requestWeight}) to be <= \`${name}\` (${maxWeight})`
+      );
+    }
+
+    return requestWeight;
+  };
+
+  // With a store, the limits are enforced by the store and only the feedback is kept in the lane
+  const createCalculator = (state: ThrottleState, ruleStates: readonly ThrottleState[]) =>
+    combineDelayCalculators([
+      ...(resolvedOptions.store
+        ? []
+        : ruleOptions.map((rule, index) => createDelayCalculator(ruleStates[index]!, rule))),
+      createFeedbackCalculator(state),
+    ]);
+
+  /**
+   * Reserve the weight in the lane and the store, or get the time until it fits without reserving anything.
+   */
+  const reserve = (
+    lane: Lane,
+    requestWeight: number,
+    now: number
+  ): Reservation | PromiseLike<Reservation> => {
+    const { calculator } = lane;
+    const { store } = resolvedOptions;
+    const delay = calculator.getDelay(requestWeight, now);
+    if (delay > 0 || !store) {
+      return { delay, reconcile: delay > 0 ? noop : calculator.record(requestWeight, now) };
+    }
+
+    const toReservation = (storeDelay: number): Reservation => {
+      if (!Number.isFinite(storeDelay) || storeDelay < 0) {
+        throw new TypeError('Expected `store.reserve` to return a finite number >= 0');
+      }
+
+      return {
+        delay: storeDelay,
+        reconcile: storeDelay > 0 ? noop : calculator.record(requestWeight, now),
+      };
+    };
+
+    const storeDelay = store.reserve({
+      key: lane.key,
+      weight: requestWeight,
+      now,
+      limit: resolvedOptions.limit,
+      interval: resolvedOptions.interval,
+      strict: Boolean(resolvedOptions.strict),
+      gcra: resolvedOptions.gcra ? { burst: getGcraBurst(resolvedOptions) } : undefined,
+    });
+    return isPromiseLike(storeDelay)
+      ? Promise.resolve(storeDelay).then(toReservation)
+      : toReservation(storeDelay);
+  };
+
+  const canStart = ({ state, isReserving }: Lane) =>
+    !isPaused && !isReserving && state.queue.length === 0 && state.activeCount < concurrency;
+
+  /**
+   * Remove a queued call and run it, merging the calls with the same batch options waiting right behind it into its slot,
+   * which is charged the weight of the call only.
+   */
+  const startQueuedCall = (lane: Lane, call: QueuedCall, reconcile: Reconcile) => {
+    const { queue } = lane.state;
+    const index = queue.indexOf(call);
+    if (index === -1) {
+      return;
+    }
+
+    let batchSize = 1;
+    const maxSize = call.batch?.maxSize ?? Number.POSITIVE_INFINITY;
+    while (call.batch && batchSize < maxSize && queue[index + batchSize]?.batch === call.batch) {
+      batchSize++;
+    }
+
+    const calls = queue.splice(index, batchSize);
+    if (calls.length > 1) {
+      dispatchBatch(lane, calls, reconcile);
+    } else {
+      call.run(reconcile);
+    }
+  };
+
+  const dispatchBatch = (lane: Lane, calls: QueuedCall[], reconcile: Reconcile) => {
+    const { state } = lane;
+    state.activeCount++;
+
+    const items = runBatch(
+      calls[0]!.batch!,
+      calls.map(({ args }) => args)
+    );
+
+    for (const [index, call] of calls.entries()) {
+      call.run(
+        index === 0 ? reconcile : () => {},
+        items.then((results) => {
+          const item = results[index]!;
+          if (item.status === 'rejected') {
+            throw item.reason;
+          }
+          return item.value;
+        })
+      );
+    }
+
+    // Released after the calls, so their outcomes are inspected before the next dispatch
+    const release = () => {
+      state.activeCount--;
+      lane.dispatch();
+    };
+    items.then(release, release);
+  };
+
+  /**
+   * Start the head of the queue with a weight a call reserved in the store but can no longer use, since the store cannot
+   * give it back.
+   */
+  const handOverReservation = (lane: Lane, requestWeight: number, reconcile: Reconcile) => {
+    const call = lane.state.queue[0];
+    if (call && call.weight <= requestWeight && !isPaused && lane.state.activeCount < concurrency) {
+      startQueuedCall(lane, call, reconcile);
+    }
+  };
+
+  const createLane = (key?: string): Lane => {
+    const state = createThrottleState();
+    const ruleStates = resolvedOptions.limits
+      ? ruleOptions.map(() => createThrottleState())
+      : [state];
+
+    // A reservation that is still pending when the store answers for it is applied to the call it was made for
+    const onReserved = (call: QueuedCall, { delay, reconcile }: Reservation) => {
+      lane.isReserving = false;
+      if (delay > 0) {
+        state.cancelTimer = startTimer(clock, delay, dispatch);
+        return;
+      }
+
+      if (state.queue.includes(call)) {
+        startQueuedCall(lane, call, reconcile);
+      } else {
+        handOverReservation(lane, call.weight, reconcile);
+      }
+      dispatch();
+    };
+
+    const onReserveError = (call: QueuedCall, error: unknown) => {
+      lane.isReserving = false;
+      const index = state.queue.indexOf(call);
+      if (index !== -1) {
+        state.queue.splice(index, 1);
+        call.reject(error);
+      }
+
+      dispatch();
+    };
+
+    const dispatch = (): void => {
+      state.cancelTimer?.();
+      state.cancelTimer = undefined;
+
+      while (
+        !isPaused &&
+        !lane.isReserving &&
+        state.queue.length > 0 &&
+        state.activeCount < concurrency
+      ) {
+        const call = state.queue[0]!;
+        let reservation: Reservation | PromiseLike<Reservation>;
+        try {
+          reservation = reserve(lane, call.weight, clock.now());
+        } catch (error) {
+          state.queue.shift();
+          call.reject(error);
+          continue;
+        }
+
+        if (isPromiseLike(reservation)) {
+          lane.isReserving = true;
+          reservation.then(
+            (result) => onReserved(call, result),
+            (error: unknown) => onReserveError(call, error)
+          );
+          break;
+        }
+
+        if (reservation.delay > 0) {
+          state.cancelTimer = startTimer(clock, reservation.delay, dispatch);
+          break;
+        }
+
+        startQueuedCall(lane, call, reservation.reconcile);
+      }
+
+      notifyWaiters();
+    };
+
+    const lane: Lane = {
+      key,
+      state,
+      ruleStates,
+      calculator: createCalculator(state, ruleStates),
+      isReserving: false,
+      dispatch,
+    };
+    return lane;
+  };
+
+  const defaultLane = createLane();
+  const keyedLanes = createKeyRegistry(
+    createLane,
+    ({ state }) =>
+      state.queue.length === 0 &&
+      state.activeCount === 0 &&
+      state.blockedUntil <= clock.now() &&
+      state.quota === undefined,
+    { ttl: resolvedOptions.keyTtl, maxKeys: resolvedOptions.maxKeys }
+  );
+  const getLanes = () => [defaultLane, ...keyedLanes.values()];
+  const getTargetLanes = (key: string | undefined) =>
+    key === undefined ? getLanes() : [keyedLanes.get(key, clock.now())];
+
+  /**
+   * Restore the usage captured by `snapshot()`, moving its times to where they are on the clock now, after the
+   * wall-clock time that passed since.
+   */
+  const restoreSnapshot = ({ savedAt, now: savedNow, lanes }: ThrottleSnapshot) => {
+    if (lanes.some(({ rules }) => rules.length !== defaultLane.ruleStates.length)) {
+      throw new TypeError('Expected `initialState` to have a state for each of the limits');
+    }
+
+    const now = clock.now();
+    const offset = now - Math.max(0, Date.now() - savedAt) - savedNow;
+    for (const { key, blockedUntil, quota, rules } of lanes) {
+      const lane = key === undefined ? defaultLane : keyedLanes.get(key, now);
+      for (const [index, rule] of rules.entries()) {
+        restoreRateState(lane.ruleStates[index]!, rule, offset);
+      }
+
+      lane.state.blockedUntil = blockedUntil + offset;
+      lane.state.quota =
+        quota && quota.resetAt + offset > now
+          ? { remaining: quota.remaining, resetAt: quota.resetAt + offset }
+          : undefined;
+    }
+  };
+
+  // Sleeping retries are cancelled by the one listener of the limiter on its signal, instead of each adding one
+  const sleepCancels = new Set<(reason: unknown) => void>();
+
+  const emptyWaiters = new Set<() => void>();
+  const idleWaiters = new Set<() => void>();
+
+  const isEmpty = () => getLanes().every(({ state }) => state.queue.length === 0);
+  const isIdle = () =>
+    limiter.pendingCount === 0 &&
+    isEmpty() &&
+    getLanes().every(({ state }) => state.activeCount === 0);
+
+  const notifyWaiters = () => {
+    for (const [waiters, isReady] of [
+      [emptyWaiters, isEmpty],
+      [idleWaiters, isIdle],
+    ] as const) {
+      if (waiters.size > 0 && isReady()) {
+        const resolvers = [...waiters];
+        waiters.clear();
+        for (const resolve of resolvers) {
+          resolve();
+        }
+      }
+    }
+  };
+
+  const waitFor = (waiters: Set<() => void>, isReady: () => boolean) =>
+    new Promise<void>((resolve) => {
+      if (isReady()) {
+        resolve();
+      } else {
+        waiters.add(resolve);
+      }
+    });
+
+  const applyFeedback = (lane: Lane, feedback: RateLimitFeedback) => {
+    const { state, dispatch } = lane;
+    const now = clock.now();
+    lane.tail = undefined;
+    const { retryAfter, remaining, resetAt } = feedback;
+
+    // Headers that fail to parse end up as `NaN`, which must not corrupt the state
+    if (retryAfter !== undefined && Number.isFinite(retryAfter)) {
+      state.blockedUntil = Math.max(state.blockedUntil, now + retryAfter);
+    }
+
+    if (
+      remaining !== undefined &&
+      resetAt !== undefined &&
+      Number.isFinite(remaining) &&
+      Number.isFinite(resetAt)
+    ) {
+      state.quota = resetAt > now ? { remaining, resetAt } : undefined;
+    }
+
+    dispatch();
+  };
+
+  const tryStart = (lane: Lane, requestWeight: number) => {
+    if (!canStart(lane)) {
+      return undefined;
+    }
+
+    const reservation = reserve(lane, requestWeight, clock.now());
+    if (isPromiseLike(reservation)) {
+      reservation.then(undefined, () => {});
+      throw new TypeError('Expected `store.reserve` to return a number to start right away');
+    }
+
+    return reservation.delay === 0 ? reservation.reconcile : undefined;
+  };
+
+  const schedule = (lane: Lane, request: LimiterRequest) => {
+    const now = clock.now();
+    if (!canStart(lane)) {
+      enqueue(lane, request, now, lane.calculator.getDelay(request.weight, now));
+      return;
+    }
+
+    const onReservation = ({ delay, reconcile }: Reservation) => {
+      if (delay > 0) {
+        enqueue(lane, request, now, delay);
+      } else {
+        request.onEnqueue(0, false);
+        request.start(reconcile, now);
+      }
+    };
+
+    let reservation: Reservation | PromiseLike<Reservation>;
+    try {
+      reservation = reserve(lane, request.weight, now);
+    } catch (error) {
+      request.reject(error);
+      return;
+    }
+
+    if (!isPromiseLike(reservation)) {
+      onReservation(reservation);
+      return;
+    }
+
+    // Calls arriving until the store answers are queued behind this one, so they cannot exceed `concurrency`
+    lane.isReserving = true;
+    limiter.pendingCount++;
+    reservation.then(
+      (result) => {
+        lane.isReserving = false;
+        limiter.pendingCount--;
+        if (request.signal?.aborted) {
+          request.reject(request.signal.reason);
+          if (result.delay === 0) {
+            handOverReservation(lane, request.weight, result.reconcile);
+          }
+        } else {
+          onReservation(result);
+        }
+        lane.dispatch();
+      },
+      (error: unknown) => {
+        lane.isReserving = false;
+        limiter.pendingCount--;
+        request.reject(error);
+        lane.dispatch();
+      }
+    );
+  };
+
+  const enqueue = (lane: Lane, request: LimiterRequest, now: number, waitTime: number) => {
+    const { state } = lane;
+    const { signal } = request;
+
+    if (request.isImmediate) {
+      request.reject(new WaitTimeoutError('Throttle cannot start the call immediately'));
+      return;
+    }
+
+    if (resolvedOptions.signal?.aborted) {
+      request.reject(resolvedOptions.signal.reason);
+      return;
+    }
+
+    // Requests that cannot start in time are rejected right away, before they take a spot in the queue
+    const deadline = Math.min(
+      request.deadline ?? Number.POSITIVE_INFINITY,
+      now + (resolvedOptions.maxWait ?? Number.POSITIVE_INFINITY)
+    );
+    // The calls queued ahead are simulated, since they are dispatched first. With a store, only the store knows.
+    const delay = resolvedOptions.store
+      ? waitTime
+      : simulateDelay(lane, request.weight, request.priority, request.isAhead, now);
+    if (now + delay > deadline) {
+      request.reject(new WaitTimeoutError());
+      return;
+    }
+
+    let isHeadChanged = false;
+
+    // Retries already held a spot in the queue, so they are not subject to `maxQueueSize`
+    const maxQueueSize = resolvedOptions.maxQueueSize ?? Number.POSITIVE_INFINITY;
+    if (!request.isRetry && state.queue.length >= maxQueueSize) {
+      const dropIndex =
+        request.overflow === 'drop-oldest' && state.queue.length > 0
+          ? findDropIndex(state.queue, request.priority)
+          : -1;
+      if (dropIndex !== -1) {
+        const [dropped] = state.queue.splice(dropIndex, 1) as [QueuedCall];
+        isHeadChanged = dropIndex === 0;
+        lane.tail = undefined;
+        dropped.drop();
+      } else if (typeof request.overflow === 'function') {
+        request.overflow();
+        return;
+      } else {
+        request.drop();
+        return;
+      }
+    }
+
+    request.onEnqueue(delay, true);
+
+    const removeFromQueue = (settle: () => void) => {
+      const index = state.queue.indexOf(queuedCall);
+      if (index === -1) {
+        return;
+      }
+
+      state.queue.splice(index, 1);
+      lane.tail = undefined;
+      settle();
+      if (index === 0) {
+        lane.dispatch();
+      } else {
+        notifyWaiters();
+      }
+    };
+
+    const onAbort = () => removeFromQueue(() => queuedCall.abort(signal!.reason));
+
+    let cancelDeadline: (() => void) | undefined;
+    const cleanUp = () => {
+      signal?.removeEventListener('abort', onAbort);
+      cancelDeadline?.();
+    };
+
+    const queuedCall: QueuedCall = {
+      args: request.args,
+      key: request.key,
+      weight: request.weight,
+      priority: request.priority,
+      batch: request.batch,
+      run: (reconcile, batchResult) => {
+        cleanUp();
+        request.start(reconcile, now, batchResult);
+      },
+      reject: (reason) => {
+        cleanUp();
+        request.reject(reason);
+      },
+      drop: () => {
+        cleanUp();
+        request.drop();
+      },
+      abort: (reason) => {
+        cleanUp();
+        request.abort(reason);
+      },
+      reweigh: request.reweigh,
+    };
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+    if (deadline !== Number.POSITIVE_INFINITY) {
+      cancelDeadline = startTimer(clock, deadline - now, () => {
+        // A request that can start right at its deadline is not rejected
+        lane.dispatch();
+        removeFromQueue(() => queuedCall.reject(new WaitTimeoutError()));
+      });
+    }
+
+    const previousLast = state.queue.at(-1);
+    const index = insertQueuedCall(state.queue, queuedCall, request.isAhead);
+    if (index === 0) {
+      isHeadChanged = true;
+    }
+
+    const { tail } = lane;
+    if (tail && previousLast && tail.last === previousLast && index === state.queue.length - 1) {
+      appendToTail(tail, queuedCall, now);
+    } else {
+      lane.tail = undefined;
+    }
+
+    if (isHeadChanged) {
+      lane.dispatch();
+    }
+  };
+
+  /**
+   * Simulate the calls queued ahead on copies of the lane states, without side effects. Running calls are assumed to
+   * leave the concurrency limit alone.
+   */
+  const simulateQueue = (
+    lane: Lane | undefined,
+    priority: number,
+    isAhead: boolean,
+    now: number
+  ): SimulatedTail => {
+    const state = lane ? cloneRateState(lane.state) : createThrottleState();
+    let ruleStates = resolvedOptions.limits
+      ? ruleOptions.map(() => createThrottleState())
+      : [state];
+    if (lane) {
+      ruleStates = lane.ruleStates.map((ruleState) =>
+        ruleState === lane.state ? state : cloneRateState(ruleState)
+      );
+    }
+
+    const tail: SimulatedTail = {
+      calculator: createCalculator(state, ruleStates),
+      time: now,
+      last: undefined,
+    };
+    for (const call of lane?.state.queue ?? []) {
+      if (isAhead ? call.priority <= priority : call.priority < priority) {
+        break;
+      }
+
+      appendToTail(tail, call, now);
+    }
+
+    return tail;
+  };
+
+  const appendToTail = (tail: SimulatedTail, call: QueuedCall, now: number) => {
+    tail.time = Math.max(tail.time, now);
+    tail.time += tail.calculator.getDelay(call.weight, tail.time);
+    tail.calculator.record(call.weight, tail.time);
+    tail.last = call;
+  };
+
+  /**
+   * Get the delay of a new call, counting the calls queued ahead of it.
+   */
+  const simulateDelay = (
+    lane: Lane | undefined,
+    requestWeight: number,
+    priority: number,
+    isAhead = false,
+    now = clock.now()
+  ): number => {
+    const last = lane?.state.queue.at(-1);
+    if (lane && !last) {
+      return lane.calculator.getDelay(requestWeight, now);
+    }
+
+    // A call that is appended to the queue waits for all of it, which the lane keeps simulated, so only calls
+    // inserted further ahead replay the queue
+    let tail: SimulatedTail;
+    if (lane && last && (isAhead ? last.priority > priority : last.priority >= priority)) {
+      if (lane.tail?.last !== last) {
+        lane.tail = simulateQueue(lane, Number.NEGATIVE_INFINITY, false, now);
+      }
+      tail = lane.tail;
+    } else {
+      tail = simulateQueue(lane, priority, isAhead, now);
+    }
+
+    const time = Math.max(tail.time, now);
+    return time + tail.calculator.getDelay(requestWeight, time) - now;
+  };
+
+  const estimateDelay = (lane: Lane | undefined, requestWeight: number, priority: number) => {
+    if (resolvedOptions.store) {
+      throw new TypeError('The `store` option does not support estimating the delay');
+    }
+
+    return simulateDelay(lane, requestWeight, priority);
+  };
+
+  const reweigh = (lane: Lane, call: QueuedCall) => {
+    const { queue } = lane.state;
+    const remove = (error: unknown) => {
+      const index = queue.indexOf(call);
+      if (index !== -1) {
+        queue.splice(index, 1);
+        call.reject(error);
+      }
+    };
+
+    let weight: number | Promise<number>;
+    try {
+      weight = call.reweigh();
+    } catch (error) {
+      remove(error);
+      return;
+    }
+
+    if (typeof weight === 'number') {
+      call.weight = weight;
+      return;
+    }
+
+    // Until an async weight resolves, the call keeps its previous weight
+    weight.then(
+      (resolvedWeight) => {
+        if (queue.includes(call)) {
+          call.weight = resolvedWeight;
+          lane.tail = undefined;
+          lane.dispatch();
+        }
+      },
+      (error: unknown) => {
+        remove(error);
+        lane.dispatch();
+      }
+    );
+  };
+
+  const limiter: Limiter = {
+    clock,
+    get options() {
+      return resolvedOptions;
+    },
+    get ruleOptions() {
+      return ruleOptions;
+    },
+    get isPaused() {
+      return isPaused;
+    },
+    pendingCount: 0,
+    getLane: (key) => (key === undefined ? defaultLane : keyedLanes.get(key, clock.now())),
+    peekLane: (key) => (key === undefined ? defaultLane : keyedLanes.peek(key)),
+    getLanes,
+    touch: (key) => keyedLanes.touch(key, clock.now()),
+    keys: () => keyedLanes.keys(clock.now()),
+    snapshot: () => ({
+      savedAt: Date.now(),
+      now: clock.now(),
+      lanes: getLanes().map(({ key, state, ruleStates }) => ({
+        key,
+        blockedUntil: state.blockedUntil,
+        quota: state.quota && { ...state.quota },
+        rules: ruleStates.map((ruleState) => snapshotRateState(ruleState)),
+      })),
+    }),
+    checkWeight,
+    tryStart,
+    schedule,
+    estimateDelay,
+    applyFeedback,
+    penalize: (milliseconds, key) => {
+      if (!Number.isFinite(milliseconds) || milliseconds < 0) {
+        throw new TypeError('Expected `milliseconds` to be a finite number >= 0');
+      }
+
+      for (const lane of getTargetLanes(key)) {
+        applyFeedback(lane, { retryAfter: milliseconds });
+      }
+    },
+    syncQuota: ({ remaining, resetAt }, key) => {
+      if (!Number.isFinite(remaining) || remaining < 0) {
+        throw new TypeError('Expected `remaining` to be a finite number >= 0');
+      }
+
+      if (!Number.isFinite(resetAt)) {
+        throw new TypeError('Expected `resetAt` to be a finite number');
+      }
+
+      for (const lane of getTargetLanes(key)) {
+        applyFeedback(lane, { remaining, resetAt });
+      }
+    },
+    configure: (configuration) => {
+      const nextOptions = mergeConfiguration(resolvedOptions, configuration);
+      validateOptions(nextOptions);
+
+      const nextRuleOptions = getRuleOptions(nextOptions);
+      const now = clock.now();
+
+      // Rules that did not exist before inherit the usage of the rule with the longest history
+      const fallbackIndex = ruleOptions.reduce(
+        (longest, rule, index) =>
+          rule.interval > ruleOptions[longest]!.interval ? index : longest,
+        0
+      );
+
+      const lanes = getLanes();
+      const nextRuleStates = lanes.map(({ state, ruleStates }) => {
+        const states = nextOptions.limits
+          ? nextRuleOptions.map(() => createThrottleState())
+          : [state];
+
+        for (const [index, rule] of nextRuleOptions.entries()) {
+          const fromIndex = index < ruleStates.length ? index : fallbackIndex;
+          migrateThrottleState(
+            ruleStates[fromIndex]!,
+            ruleOptions[fromIndex]!,
+            states[index]!,
+            rule,
+            now
+          );
+        }
+
+        return states;
+      });
+
+      resolvedOptions = nextOptions;
+      ruleOptions = nextRuleOptions;
+      maxWeight = getMaxWeight(nextRuleOptions);
+      concurrency = nextOptions.concurrency ?? Number.POSITIVE_INFINITY;
+
+      for (const [index, lane] of lanes.entries()) {
+        lane.ruleStates = nextRuleStates[index]!;
+        lane.calculator = createCalculator(lane.state, lane.ruleStates);
+        lane.tail = undefined;
+
+        // Queued calls are weighed again, and rejected if they no longer fit the limits
+        for (const call of [...lane.state.queue]) {
+          reweigh(lane, call);
+        }
+
+        lane.dispatch();
+      }
+    },
+    pause: () => {
+      isPaused = true;
+
+      for (const { state } of getLanes()) {
+        state.cancelTimer?.();
+        state.cancelTimer = undefined;
+      }
+    },
+    resume: () => {
+      if (!isPaused) {
+        return;
+      }
+
+      isPaused = false;
+      for (const { dispatch } of getLanes()) {
+        dispatch();
+      }
+    },
+    onEmpty: () => waitFor(emptyWaiters, isEmpty),
+    onIdle: () => waitFor(idleWaiters, isIdle),
+    drain: ({ timeout = Number.POSITIVE_INFINITY } = {}) => {
+      if (typeof timeout !== 'number' || Number.isNaN(timeout) || timeout < 0) {
+        throw new TypeError('Expected `timeout` to be a number >= 0');
+      }
+
+      return new Promise((resolve) => {
+        if (isIdle()) {
+          resolve(true);
+          return;
+        }
+
+        let cancelTimer: (() => void) | undefined;
+        const onIdle = () => {
+          cancelTimer?.();
+          resolve(true);
+        };
+
+        idleWaiters.add(onIdle);
+        if (timeout !== Number.POSITIVE_INFINITY) {
+          cancelTimer = startTimer(clock, timeout, () => {
+            idleWaiters.delete(onIdle);
+            resolve(false);
+          });
+        }
+      });
+    },
+    notifyWaiters,
+    sleep: (milliseconds, signal) =>
+      resolvedOptions.signal?.aborted
+        ? Promise.reject(resolvedOptions.signal.reason)
+        : sleep(clock, milliseconds, signal, sleepCancels),
+  };
+
+  if (resolvedOptions.initialState) {
+    restoreSnapshot(resolvedOptions.initialState);
+  }
+
+  if (resolvedOptions.signal) {
+    Abort.manageLifecycle({
+      signal: resolvedOptions.signal,
+      target: limiter,
+      onAbort: (reason) => {
+        for (const lane of getLanes()) {
+          const { state, ruleStates } = lane;
+          const queued = [...state.queue];
+          lane.tail = undefined;
+          resetThrottleState(state);
+          for (const ruleState of ruleStates) {
+            resetThrottleState(ruleState);
+          }
+
+          for (const call of queued) {
+            call.abort(reason);
+          }
+        }
+
+        for (const cancel of [...sleepCancels]) {
+          cancel(reason);
+        }
+
+        notifyWaiters();
+      },
+    });
+  }
+
+  return limiter;
+};
@@ -0,0 +1,263 @@
+import type { AnyFunction, Options, ThrottledFunction } from '../typings';
+import { validateBatchOptions } from './batch';
+import { getBucketCapacity, getGcraBurst } from './delay';
+import { validateRetryOptions } from './retry';
+
+export type Configuration = Parameters<ThrottledFunction<AnyFunction>['configure']>[0];
+
+export const getRuleOptions = (options: Options): Options[] => {
+  if (!options.limits) {
+    return [options];
+  }
+
+  return options.limits.map(({ limit, interval }) => ({ ...options, limit, interval }));
+};
+
+export const getMaxWeight = (ruleOptions: Options[]): number =>
+  Math.min(...ruleOptions.map((rule) => (rule.tokenBucket ? getBucketCapacity(rule) : rule.limit)));
+
+/**
+ * Apply a configuration on top of the current options. Setting `limit` or `interval` replaces `limits` and the other way around,
+ * and enabling one of `strict`, `tokenBucket` and `gcra` disables the others.
+ */
+export const mergeConfiguration = (options: Options, configuration: Configuration): Options => {
+  const modes = ['strict', 'tokenBucket', 'gcra'] as const;
+  const next: { -readonly [K in keyof Options]: Options[K] } = { ...options, ...configuration };
+
+  if (configuration.limits) {
+    next.limit = configuration.limit ?? 0;
+    next.interval = configuration.interval ?? 0;
+  } else if (configuration.limit !== undefined || configuration.interval !== undefined) {
+    next.limits = undefined;
+  }
+
+  for (const mode of modes) {
+    if (configuration[mode]) {
+      for (const otherMode of modes) {
+        if (otherMode !== mode && configuration[otherMode] === undefined) {
+          next[otherMode] = undefined;
+        }
+      }
+    }
+  }
+
+  return next;
+};
+
+const validateLimit = (options: Options): void => {
+  if (!Number.isFinite(options.limit)) {
+    throw new TypeError('Expected `limit` to be a finite number');
+  }
+
+  if (!Number.isFinite(options.interval)) {
+    throw new TypeError('Expected `interval` to be a finite number');
+  }
+
+  if (options.limit < 0) {
+    throw new TypeError('Expected `limit` to be >= 0');
+  }
+
+  if (options.interval < 0) {
+    throw new TypeError('Expected `interval` to be >= 0');
+  }
+
+  if (options.weight && options.interval === 0) {
+    throw new TypeError('The `weight` option cannot be used with `interval` of 0');
+  }
+
+  if (options.actualWeight && options.interval === 0) {
+    throw new TypeError('The `actualWeight` option cannot be used with `interval` of 0');
+  }
+
+  if (options.tokenBucket) {
+    if (options.limit === 0 || options.interval === 0) {
+      throw new TypeError('The `tokenBucket` option requires `limit` and `interval` to be > 0');
+    }
+
+    const capacity = getBucketCapacity(options);
+    if (!Number.isFinite(capacity) || capacity <= 0) {
+      throw new TypeError('Expected `tokenBucket.capacity` to be a finite number > 0');
+    }
+  }
+
+  if (options.gcra) {
+    if (options.limit === 0 || options.interval === 0) {
+      throw new TypeError('The `gcra` option requires `limit` and `interval` to be > 0');
+    }
+
+    const burst = getGcraBurst(options);
+    if (!Number.isFinite(burst) || burst < 1) {
+      throw new TypeError('Expected `gcra.burst` to be a finite number >= 1');
+    }
+  }
+};
+
+export const validateOptions = (options: Options): void => {
+  if (options.weight !== undefined && typeof options.weight !== 'function') {
+    throw new TypeError('Expected `weight` to be a function');
+  }
+
+  if (typeof options.dedupe === 'object' && options.dedupe !== null) {
+    const { key, ttl } = options.dedupe;
+    if (key !== undefined && typeof key !== 'function') {
+      throw new TypeError('Expected `dedupe.key` to be a function');
+    }
+
+    if (ttl !== undefined && (!Number.isFinite(ttl) || ttl < 0)) {
+      throw new TypeError('Expected `dedupe.ttl` to be a finite number >= 0');
+    }
+  }
+
+  if (options.actualWeight !== undefined && typeof options.actualWeight !== 'function') {
+    throw new TypeError('Expected `actualWeight` to be a function');
+  }
+
+  if ([options.strict, options.tokenBucket, options.gcra].filter(Boolean).length > 1) {
+    throw new TypeError('Only one of the `strict`, `tokenBucket` and `gcra` options can be used');
+  }
+
+  if (options.limits !== undefined) {
+    if (!Array.isArray(options.limits) || options.limits.length === 0) {
+      throw new TypeError('Expected `limits` to be a non-empty array');
+    }
+
+    if (options.limit !== 0 || options.interval !== 0) {
+      throw new TypeError('The `limits` option cannot be used with `limit` and `interval`');
+    }
+
+    if (typeof options.tokenBucket === 'object' && options.tokenBucket.capacity !== undefined) {
+      throw new TypeError('The `tokenBucket.capacity` option cannot be used with `limits`');
+    }
+  }
+
+  for (const ruleOptions of getRuleOptions(options)) {
+    validateLimit(ruleOptions);
+  }
+
+  if (
+    options.concurrency !== undefined &&
+    !(Number.isInteger(options.concurrency) || options.concurrency === Number.POSITIVE_INFINITY)
+  ) {
+    throw new TypeError('Expected `concurrency` to be an integer or `Infinity`');
+  }
+
+  if (options.concurrency !== undefined && options.concurrency < 1) {
+    throw new TypeError('Expected `concurrency` to be >= 1');
+  }
+
+  if (
+    options.maxQueueSize !== undefined &&
+    !(Number.isInteger(options.maxQueueSize) || options.maxQueueSize === Number.POSITIVE_INFINITY)
+  ) {
+    throw new TypeError('Expected `maxQueueSize` to be an integer or `Infinity`');
+  }
+
+  if (options.maxQueueSize !== undefined && options.maxQueueSize < 0) {
+    throw new TypeError('Expected `maxQueueSize` to be >= 0');
+  }
+
+  if (options.maxWait !== undefined && (Number.isNaN(options.maxWait) || options.maxWait < 0)) {
+    throw new TypeError('Expected `maxWait` to be a number >= 0');
+  }
+
+  if (
+    options.overflow !== undefined &&
+    options.overflow !== 'reject' &&
+    options.overflow !== 'drop-oldest' &&
+    typeof options.overflow !== 'function'
+  ) {
+    throw new TypeError("Expected `overflow` to be 'reject', 'drop-oldest' or a function");
+  }
+
+  if (options.priority !== undefined && typeof options.priority !== 'function') {
+    throw new TypeError('Expected `priority` to be a function');
+  }
+
+  if (options.retry !== undefined) {
+    validateRetryOptions(options.retry);
+  }
+
+  if (options.batch !== undefined) {
+    validateBatchOptions(options.batch);
+  }
+
+  if (options.inspect !== undefined && typeof options.inspect !== 'function') {
+    throw new TypeError('Expected `inspect` to be a function');
+  }
+
+  if (options.key !== undefined && typeof options.key !== 'function') {
+    throw new TypeError('Expected `key` to be a function');
+  }
+
+  if (options.keyTtl !== undefined && (!Number.isFinite(options.keyTtl) || options.keyTtl < 0)) {
+    throw new TypeError('Expected `keyTtl` to be a finite number >= 0');
+  }
+
+  if (
+    options.maxKeys !== undefined &&
+    (!Number.isInteger(options.maxKeys) || options.maxKeys < 1)
+  ) {
+    throw new TypeError('Expected `maxKeys` to be an integer >= 1');
+  }
+
+  if (options.store !== undefined) {
+    if (typeof options.store?.reserve !== 'function') {
+      throw new TypeError('Expected `store` to implement `reserve`');
+    }
+
+    if (options.tokenBucket || options.limits) {
+      throw new TypeError(
+        'The `store` option only supports the windowed, `strict` and `gcra` algorithms'
+      );
+    }
+
+    if (options.actualWeight) {
+      throw new TypeError('The `store` option cannot be used with `actualWeight`');
+    }
+  }
+
+  if (
+    options.clock !== undefined &&
+    (typeof options.clock?.now !== 'function' ||
+      typeof options.clock.setTimeout !== 'function' ||
+      typeof options.clock.clearTimeout !== 'function')
+  ) {
+    throw new TypeError('Expected `clock` to implement `now`, `setTimeout` and `clearTimeout`');
+  }
+
+  if (
+    options.initialState !== undefined &&
+    (!Number.isFinite(options.initialState?.savedAt) ||
+      !Number.isFinite(options.initialState.now) ||
+      !Array.isArray(options.initialState.lanes))
+  ) {
+    throw new TypeError('Expected `initialState` to be a snapshot taken by `snapshot()`');
+  }
+};
+
+export const defaultOptions: Options = {
+  limit: 0,
+  interval: 0,
+  strict: false,
+};
+
+/**
+ * The options that belong to the limiter, which a function sharing a `limiter` cannot override.
+ */
+export const limiterOptionNames = [
+  'limit',
+  'interval',
+  'limits',
+  'strict',
+  'tokenBucket',
+  'gcra',
+  'concurrency',
+  'maxQueueSize',
+  'maxWait',
+  'keyTtl',
+  'maxKeys',
+  'clock',
+  'store',
+  'initialState',
+  'signal',
+] as const;
@@ -0,0 +1,49 @@
+import type { RetryOptions } from '../typings';
+
+export const validateRetryOptions = (retry: RetryOptions): void => {
+  if (typeof retry !== 'object' || retry === null) {
+    throw new TypeError('Expected `retry` to be an object');
+  }
+
+  if (retry.retries !== undefined && (!Number.isInteger(retry.retries) || retry.retries < 0)) {
+    throw new TypeError('Expected `retry.retries` to be an integer >= 0');
+  }
+
+  for (const name of ['minDelay', 'maxDelay', 'factor'] as const) {
+    const value = retry[name];
+    if (value !== undefined && (Number.isNaN(value) || value < 0)) {
+      throw new TypeError(`Expected \`retry.${name}\` to be a number >= 0`);
+    }
+  }
+
+  if (retry.shouldRetry !== undefined && typeof retry.shouldRetry !== 'function') {
+    throw new TypeError('Expected `retry.shouldRetry` to be a function');
+  }
+};
+
+export const shouldRetry = (
+  retry: RetryOptions | undefined,
+  error: unknown,
+  attempt: number
+): boolean => {
+  if (!retry || attempt > (retry.retries ?? 3)) {
+    return false;
+  }
+
+  try {
+    return retry.shouldRetry?.(error, attempt) ?? true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Get the exponential backoff before retrying a call that failed on the given attempt.
+ */
+export const getRetryDelay = (retry: RetryOptions, attempt: number): number => {
+  const { minDelay = 100, maxDelay = Number.POSITIVE_INFINITY, factor = 2, jitter = true } = retry;
+  const backoff = Math.min(maxDelay, minDelay * factor ** (attempt - 1));
+
+  // Full jitter spreads retries of calls that failed together
+  return jitter ? Math.round(Math.random() * backoff) : backoff;
+};
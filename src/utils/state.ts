@@ -1,13 +1,180 @@
+import type { BatchOptions, ThrottleSnapshot } from '../typings';
+import type { Reconcile } from './delay';
+import { createTickLog } from './ticks';
+import type { TickLog } from './ticks';
+
+export interface QueuedCall {
+  readonly args: readonly unknown[];
+  readonly key?: string;
+  weight: number;
+  readonly priority: number;
+  /**
+   * Queued calls with the same batch options, one right after another, are merged into one batch.
+   */
+  readonly batch?: BatchOptions;
+  /**
+   * Start the call. When it is part of a batch, `batchResult` settles with its share of the batch result.
+   */
+  readonly run: (reconcile: Reconcile, batchResult?: Promise<unknown>) => void;
+  readonly reject: (reason?: unknown) => void;
+  /**
+   * Reject the call because it was dropped from a full queue.
+   */
+  readonly drop: () => void;
+  /**
+   * Reject the call because its signal or the signal of the limiter was aborted.
+   */
+  readonly abort: (reason: unknown) => void;
+  /**
+   * Get the weight of the call again, after the options changed.
+   */
+  readonly reweigh: () => number | Promise<number>;
+}
+
 export interface ThrottleState {
-  readonly queue: Map<Promise<unknown>, (reason?: unknown) => void>;
-  readonly strictTicks: { time: number; weight: number }[];
+  /**
+   * Calls waiting to be executed, ordered by descending priority and then by arrival.
+   */
+  readonly queue: QueuedCall[];
+  readonly strictTicks: TickLog;
   currentTick: number;
   activeWeight: number;
+  tokens: number;
+  lastRefill: number;
+  theoreticalArrival: number;
+  activeCount: number;
+  blockedUntil: number;
+  quota?: { remaining: number; resetAt: number };
+  cancelTimer?: () => void;
 }
 
 export const createThrottleState = (): ThrottleState => ({
-  queue: new Map(),
-  strictTicks: [],
+  queue: [],
+  strictTicks: createTickLog(),
   currentTick: 0,
   activeWeight: 0,
+  tokens: 0,
+  lastRefill: Number.NEGATIVE_INFINITY,
+  theoreticalArrival: 0,
+  activeCount: 0,
+  blockedUntil: 0,
+});
+
+/**
+ * Reset the fields used by the delay calculators, keeping the queue and pending calls.
+ */
+export const resetRateState = (state: ThrottleState): void => {
+  state.strictTicks.clear();
+  state.currentTick = 0;
+  state.activeWeight = 0;
+  state.tokens = 0;
+  state.lastRefill = Number.NEGATIVE_INFINITY;
+  state.theoreticalArrival = 0;
+};
+
+/**
+ * Copy the fields used by the delay calculators into a new state with an empty queue,
+ * so calls can be simulated without affecting the original.
+ */
+export const cloneRateState = (state: ThrottleState): ThrottleState => ({
+  queue: [],
+  strictTicks: state.strictTicks.clone(),
+  currentTick: state.currentTick,
+  activeWeight: state.activeWeight,
+  tokens: state.tokens,
+  lastRefill: state.lastRefill,
+  theoreticalArrival: state.theoreticalArrival,
+  activeCount: state.activeCount,
+  blockedUntil: state.blockedUntil,
+  quota: state.quota && { ...state.quota },
+});
+
+type RateStateSnapshot = ThrottleSnapshot['lanes'][number]['rules'][number];
+
+/**
+ * Copy the fields used by the delay calculators into a plain object that survives `JSON.stringify`.
+ */
+export const snapshotRateState = (state: ThrottleState): RateStateSnapshot => ({
+  currentTick: state.currentTick,
+  activeWeight: state.activeWeight,
+  strictTicks: state.strictTicks.toArray(),
+  tokens: state.tokens,
+  lastRefill: Number.isFinite(state.lastRefill) ? state.lastRefill : null,
+  theoreticalArrival: state.theoreticalArrival,
 });
+
+/**
+ * Overwrite the fields used by the delay calculators with a snapshot, moving its times by `offset`.
+ */
+export const restoreRateState = (
+  state: ThrottleState,
+  snapshot: RateStateSnapshot,
+  offset: number
+): void => {
+  state.currentTick = snapshot.currentTick + offset;
+  state.activeWeight = snapshot.activeWeight;
+  state.strictTicks.clear();
+  for (const { time, weight } of snapshot.strictTicks) {
+    state.strictTicks.push(time + offset, weight);
+  }
+  state.tokens = snapshot.tokens;
+  state.lastRefill =
+    snapshot.lastRefill === null ? Number.NEGATIVE_INFINITY : snapshot.lastRefill + offset;
+  state.theoreticalArrival = snapshot.theoreticalArrival + offset;
+};
+
+export const resetThrottleState = (state: ThrottleState): void => {
+  state.cancelTimer?.();
+  state.cancelTimer = undefined;
+  state.queue.length = 0;
+  state.blockedUntil = 0;
+  state.quota = undefined;
+  resetRateState(state);
+};
+
+/**
+ * Insert a call after every queued call with the same or a higher priority, and return its index.
+ * When `isAhead` is set, the call is inserted before queued calls with the same priority instead.
+ */
+export const insertQueuedCall = (
+  queue: QueuedCall[],
+  call: QueuedCall,
+  isAhead = false
+): number => {
+  if (!isAhead && (queue.length === 0 || queue.at(-1)!.priority >= call.priority)) {
+    queue.push(call);
+    return queue.length - 1;
+  }
+
+  let low = 0;
+  let high = queue.length;
+  while (low < high) {
+    const middle = (low + high) >>> 1;
+    const priority = queue[middle]!.priority;
+    if (isAhead ? priority > call.priority : priority >= call.priority) {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+
+  queue.splice(low, 0, call);
+  return low;
+};
+
+/**
+ * Get the index of the oldest call with the lowest priority, or `-1` when a new call with `priority` is lower than all
+ * of them and should be dropped instead.
+ */
+export const findDropIndex = (queue: QueuedCall[], priority: number): number => {
+  const lowestPriority = queue.at(-1)!.priority;
+  if (priority < lowestPriority) {
+    return -1;
+  }
+
+  let index = queue.length - 1;
+  while (index > 0 && queue[index - 1]!.priority === lowestPriority) {
+    index--;
+  }
+  return index;
+};
@@ -0,0 +1,36 @@
+import type { Options, StoreRequest } from '../typings';
+import { createDelayCalculator } from './delay';
+import type { ThrottleState } from './state';
+
+const getStoreOptions = ({ limit, interval, strict, gcra }: StoreRequest): Options => ({
+  limit,
+  interval,
+  strict,
+  gcra,
+  // Any weight function makes strict mode track weights, since calls reserved in a store may weigh differently
+  weight: () => 1,
+});
+
+/**
+ * Reserve the weight of a request in a throttling state, like a throttled function records its calls.
+ */
+export const reserveInState = (state: ThrottleState, request: StoreRequest): number => {
+  const calculator = createDelayCalculator(state, getStoreOptions(request));
+  const delay = calculator.getDelay(request.weight, request.now);
+  if (delay === 0) {
+    calculator.record(request.weight, request.now);
+  }
+
+  return delay;
+};
+
+/**
+ * Whether nothing recorded in the state counts towards the limit anymore at `now`.
+ */
+export const isStateExpired = (state: ThrottleState, now: number, interval: number): boolean =>
+  now -
+    Math.max(
+      state.currentTick,
+      state.strictTicks.length > 0 ? state.strictTicks.timeAt(-1) : state.currentTick
+    ) >
+    interval && state.theoreticalArrival <= now;
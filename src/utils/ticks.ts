@@ -0,0 +1,256 @@
+interface TickRecord {
+  readonly time: number;
+  weight: number;
+  /**
+   * The position of the record in the backing arrays, kept up to date so its weight can be updated later.
+   */
+  index: number;
+}
+
+/**
+ * The calls recorded by the `strict` algorithm, ordered by time.
+ *
+ * Removing ticks from the start, appending and updating weights are amortized O(log n), as are searching by time and
+ * summing weights, which is what the `strict` algorithm does on every call. A log of a few ticks is scanned instead.
+ */
+export interface TickLog {
+  readonly length: number;
+  /**
+   * Get the time of the tick at `index`, counting back from the end for negative indices.
+   */
+  timeAt(index: number): number;
+  /**
+   * Append a tick, returning a function that updates its weight for as long as it was not removed.
+   */
+  push(time: number, weight: number): (weight: number) => void;
+  /**
+   * Insert a tick after the ticks with the same or an earlier time, like `push()` otherwise.
+   */
+  insert(time: number, weight: number): (weight: number) => void;
+  /**
+   * Remove `count` ticks from the start.
+   */
+  shift(count?: number): void;
+  clear(): void;
+  /**
+   * Get the index of the first tick whose time matches `predicate`, which has to be false for earlier times and true
+   * for later ones, or the length when there is none.
+   */
+  search(predicate: (time: number) => boolean): number;
+  /**
+   * Get the total weight of the ticks from `start` up to but not including `end`.
+   */
+  sum(start: number, end: number): number;
+  /**
+   * Get the smallest index so that the ticks from it to the end weigh at most `maxWeight`.
+   */
+  searchSuffix(maxWeight: number): number;
+  toArray(): { time: number; weight: number }[];
+  clone(): TickLog;
+}
+
+const lowestBit = (value: number) => value & -value;
+
+// Up to this many ticks, scanning them is faster than keeping the tree up to date
+const scanLength = 64;
+
+/**
+ * Create a log of ticks backed by an array with a moving start and, once it holds more than a few ticks, a Fenwick tree
+ * over the weights.
+ */
+export const createTickLog = (ticks: readonly { time: number; weight: number }[] = []): TickLog => {
+  let records: TickRecord[] = [];
+  // `tree[position - 1]` holds the weight of the records in `(position - lowestBit(position), position]`, and is only
+  // kept while there are more than `scanLength` records
+  let tree: number[] | undefined;
+  let head = 0;
+  // The weight of every record in the arrays, which is the most common prefix sum
+  let totalWeight = 0;
+  // The weight of the removed records still in the arrays
+  let headWeight = 0;
+
+  const prefixSum = (end: number) => {
+    if (end === records.length) {
+      return totalWeight;
+    }
+
+    let total = 0;
+    for (let position = end; position > 0; position -= lowestBit(position)) {
+      total += tree![position - 1]!;
+    }
+    return total;
+  };
+
+  const addWeight = (index: number, delta: number) => {
+    totalWeight += delta;
+    if (tree) {
+      for (let position = index + 1; position <= tree.length; position += lowestBit(position)) {
+        tree[position - 1]! += delta;
+      }
+    }
+  };
+
+  const buildTree = () => {
+    tree = records.map(({ weight }) => weight);
+    for (let position = 1; position <= tree.length; position++) {
+      const parent = position + lowestBit(position);
+      if (parent <= tree.length) {
+        tree[parent - 1]! += tree[position - 1]!;
+      }
+    }
+  };
+
+  const rebuild = (nextRecords: TickRecord[]) => {
+    records = nextRecords;
+    head = 0;
+    totalWeight = 0;
+    headWeight = 0;
+    for (const [index, record] of records.entries()) {
+      record.index = index;
+      totalWeight += record.weight;
+    }
+
+    if (records.length > scanLength) {
+      buildTree();
+    } else {
+      tree = undefined;
+    }
+  };
+
+  const createUpdate = (record: TickRecord) => (weight: number) => {
+    if (record.index >= head && records[record.index] === record) {
+      addWeight(record.index, weight - record.weight);
+      record.weight = weight;
+    }
+  };
+
+  const push = (time: number, weight: number) => {
+    const position = records.length + 1;
+    const record: TickRecord = { time, weight, index: records.length };
+    if (tree) {
+      tree.push(weight + prefixSum(position - 1) - prefixSum(position - lowestBit(position)));
+      records.push(record);
+    } else {
+      records.push(record);
+      if (records.length - head > scanLength) {
+        buildTree();
+      }
+    }
+    totalWeight += weight;
+    return createUpdate(record);
+  };
+
+  const search = (predicate: (time: number) => boolean) => {
+    if (!tree) {
+      let index = head;
+      while (index < records.length && !predicate(records[index]!.time)) {
+        index++;
+      }
+      return index - head;
+    }
+
+    let low = head;
+    let high = records.length;
+    while (low < high) {
+      const middle = (low + high) >>> 1;
+      if (predicate(records[middle]!.time)) {
+        high = middle;
+      } else {
+        low = middle + 1;
+      }
+    }
+    return low - head;
+  };
+
+  for (const { time, weight } of ticks) {
+    push(time, weight);
+  }
+
+  const log: TickLog = {
+    get length() {
+      return records.length - head;
+    },
+    timeAt: (index) => records[index < 0 ? records.length + index : head + index]!.time,
+    push,
+    insert: (time, weight) => {
+      if (log.length === 0 || time >= records.at(-1)!.time) {
+        return push(time, weight);
+      }
+
+      // Out of order ticks are rare, so the positions after it are shifted and the tree is rebuilt
+      const index = head + search((tickTime) => tickTime > time);
+      const record: TickRecord = { time, weight, index };
+      rebuild([...records.slice(head, index), record, ...records.slice(index)]);
+      return createUpdate(record);
+    },
+    shift: (count = 1) => {
+      const nextHead = Math.min(head + count, records.length);
+      for (; head < nextHead; head++) {
+        headWeight += records[head]!.weight;
+      }
+
+      // The removed records are only dropped once they make up half of the arrays, so each is moved at most once
+      if (head === records.length) {
+        log.clear();
+      } else if (head >= 32 && head * 2 >= records.length) {
+        rebuild(records.slice(head));
+      }
+    },
+    clear: () => {
+      records = [];
+      tree = undefined;
+      head = 0;
+      totalWeight = 0;
+      headWeight = 0;
+    },
+    search,
+    sum: (start, end) => {
+      if (tree) {
+        return prefixSum(head + end) - prefixSum(head + start);
+      }
+
+      // The window usually reaches the end, so the ticks before it are subtracted from the total instead
+      if (head + end === records.length) {
+        let total = totalWeight - headWeight;
+        for (let index = head; index < head + start; index++) {
+          total -= records[index]!.weight;
+        }
+        return total;
+      }
+
+      let total = 0;
+      for (let index = head + start; index < head + end; index++) {
+        total += records[index]!.weight;
+      }
+      return total;
+    },
+    searchSuffix: (maxWeight) => {
+      if (!tree) {
+        let index = head;
+        let total = totalWeight - headWeight;
+        while (index < records.length && total > maxWeight) {
+          total -= records[index]!.weight;
+          index++;
+        }
+        return index - head;
+      }
+
+      // Find the most records from the start, past the removed ones, that weigh less than they have to
+      const target = prefixSum(records.length) - maxWeight;
+      let position = 0;
+      let remaining = target;
+      for (let step = 2 ** Math.floor(Math.log2(tree.length || 1)); step > 0; step >>>= 1) {
+        if (position + step <= tree.length && tree[position + step - 1]! < remaining) {
+          position += step;
+          remaining -= tree[position - 1]!;
+        }
+      }
+
+      return Math.min(Math.max(position + (target > 0 ? 1 : 0), head), records.length) - head;
+    },
+    toArray: () => records.slice(head).map(({ time, weight }) => ({ time, weight })),
+    clone: () => createTickLog(log.toArray()),
+  };
+
+  return log;
+};